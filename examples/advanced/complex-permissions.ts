@@ -15,6 +15,7 @@ import {
   createFirebaseConnector,
   createTemplateManager,
   createPermissionTemplate,
+  groupMember,
   utils
 } from 'gatekeeper-rbac';
 
@@ -23,7 +24,8 @@ async function advancedExample() {
   const rbac = createGatekeeper({
     connector,
     wildcardSupport: true,
-    strictMode: false
+    strictMode: false,
+    subjectAttributes: true // Expose each user's record to conditions as `subject`
   });
 
   const templateManager = createTemplateManager(connector);
@@ -75,7 +77,7 @@ async function setupOrganizationalStructure(rbac: any, templateManager: any) {
     id: 'backend-team',
     name: 'Backend Development Team',
     description: 'Backend developers within IT',
-    members: [itDepartment], // Nested group
+    members: [groupMember(itDepartment.id)], // Nested group reference
     permissions: [
       { permission: 'api.*' },
       { permission: 'database.read' },
@@ -87,7 +89,7 @@ async function setupOrganizationalStructure(rbac: any, templateManager: any) {
     id: 'frontend-team',
     name: 'Frontend Development Team',
     description: 'Frontend developers within IT',
-    members: [itDepartment], // Nested group
+    members: [groupMember(itDepartment.id)], // Nested group reference
     permissions: [
       { permission: 'ui.*' },
       { permission: 'assets.*' },
@@ -154,9 +156,9 @@ async function setupContextAwarePermissions(rbac: any) {
         permission: 'reports.read',
         conditions: [
           {
-            attribute: 'attributes.userDepartment',
-            operator: 'equals', 
-            value: '${metadata.department}'
+            attribute: 'attributes.resource.department',
+            operator: 'equals',
+            valueFrom: 'subject.metadata.department'
           }
         ]
       },
@@ -165,7 +167,7 @@ async function setupContextAwarePermissions(rbac: any) {
         permission: 'approvals.create',
         conditions: [
           {
-            attribute: 'attributes.userLevel',
+            attribute: 'subject.metadata.level',
             operator: 'in',
             value: ['manager', 'director', 'vp']
           }
@@ -176,7 +178,7 @@ async function setupContextAwarePermissions(rbac: any) {
         permission: 'data.sensitive',
         conditions: [
           {
-            attribute: 'attributes.userCountry',
+            attribute: 'subject.metadata.country',
             operator: 'in',
             value: ['US', 'CA'] // Only US and Canada
           }
@@ -188,26 +190,16 @@ async function setupContextAwarePermissions(rbac: any) {
   await rbac.assignRole('user-regular', 'contextual-role');
   await rbac.assignRole('user-manager', 'contextual-role');
 
-  // Test contextual permissions
-  const regularContext = {
-    attributes: {
-      userDepartment: 'marketing',
-      userLevel: 'junior',
-      userCountry: 'US'
-    }
-  };
-
-  const managerContext = {
+  // Test contextual permissions - user attributes are loaded as `subject`
+  const reportContext = {
     attributes: {
-      userDepartment: 'marketing',
-      userLevel: 'manager',
-      userCountry: 'US'
+      resource: { department: 'marketing' }
     }
   };
 
-  const regularCanRead = await rbac.hasPermission('user-regular', 'reports.read', regularContext);
-  const regularCanApprove = await rbac.hasPermission('user-regular', 'approvals.create', regularContext);
-  const managerCanApprove = await rbac.hasPermission('user-manager', 'approvals.create', managerContext);
+  const regularCanRead = await rbac.hasPermission('user-regular', 'reports.read', reportContext);
+  const regularCanApprove = await rbac.hasPermission('user-regular', 'approvals.create');
+  const managerCanApprove = await rbac.hasPermission('user-manager', 'approvals.create');
 
   console.log('Context-aware permissions:', {
     regularCanRead: regularCanRead.allowed,
@@ -230,13 +222,8 @@ async function setupTimeBasedPermissions(rbac: any) {
         conditions: [
           {
             attribute: 'timestamp',
-            operator: 'greaterThan',
-            value: Date.now() // Current time
-          },
-          {
-            attribute: 'timestamp',
-            operator: 'lessThan',
-            value: Date.now() + (2 * 60 * 60 * 1000) // 2 hours from now
+            operator: 'between',
+            value: [Date.now(), Date.now() + (2 * 60 * 60 * 1000)] // Next 2 hours
           }
         ]
       },
@@ -245,14 +232,14 @@ async function setupTimeBasedPermissions(rbac: any) {
         permission: 'banking.transfer',
         conditions: [
           {
-            attribute: 'attributes.hour',
-            operator: 'greaterThan',
-            value: 8 // After 8 AM
-          },
-          {
-            attribute: 'attributes.hour',
-            operator: 'lessThan',
-            value: 18 // Before 6 PM
+            attribute: 'timestamp',
+            operator: 'withinSchedule',
+            value: {
+              timeZone: 'America/New_York',
+              days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+              startTime: '08:00',
+              endTime: '18:00'
+            }
           }
         ]
       }
@@ -267,13 +254,9 @@ async function setupTimeBasedPermissions(rbac: any) {
 
   await rbac.assignRole('temp-user', 'temporary-access');
 
-  // Test time-based permissions
-  const currentHour = new Date().getHours();
+  // Test time-based permissions (conditions are evaluated against context.timestamp)
   const timeContext = {
-    timestamp: Date.now() + (30 * 60 * 1000), // 30 minutes from now
-    attributes: {
-      hour: currentHour
-    }
+    timestamp: new Date(Date.now() + (30 * 60 * 1000)) // 30 minutes from now
   };
 
   const canExecuteMaintenance = await rbac.hasPermission('temp-user', 'maintenance.execute', timeContext);
@@ -282,7 +265,7 @@ async function setupTimeBasedPermissions(rbac: any) {
   console.log('Time-based permissions:', {
     canExecuteMaintenance: canExecuteMaintenance.allowed,
     canTransfer: canTransfer.allowed,
-    currentHour
+    checkedAt: timeContext.timestamp.toISOString()
   });
 }
 
@@ -12,7 +12,8 @@ import {
   createGatekeeper, 
   createFirebaseConnector,
   createTemplateManager,
-  roleTemplates 
+  roleTemplates,
+  userMember
 } from 'gatekeeper-rbac';
 
 // Initialize Firebase (this would be your Firebase config)
@@ -74,7 +75,7 @@ async function basicExample() {
     id: 'editors',
     name: 'Content Editors',
     description: 'Group for all content editors',
-    members: ['user-123'], // Add our user to the group
+    members: [userMember('user-123')], // Add our user to the group
     permissions: [
       { permission: 'media.upload' },
       { permission: 'media.read' }
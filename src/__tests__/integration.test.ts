@@ -5,8 +5,11 @@
 
 import { RBAC } from '../core/rbac';
 import { PermissionEngine } from '../core/permission-engine';
-import { DatabaseConnector, RBACConfig, User, Role, Group, UserAssignment } from '../core/types';
-import { TemplateManager } from '../templates';
+import { DatabaseConnector, RBACConfig, User, Role, Group, UserAssignment, ConditionalPermission } from '../core/types';
+import { TemplateManager, commonPermissions } from '../templates';
+import { migrationUtils, debugUtils, groupUtils, permissionUtils, createPermissionUtils } from '../utils';
+import { defaultActionHierarchy } from '../core/actions';
+import { groupMember, isMember, userMember } from '../core/members';
 
 describe('Integration Tests', () => {
   let rbac: RBAC;
@@ -102,6 +105,14 @@ describe('Integration Tests', () => {
       this.groups.delete(groupId);
     }
 
+    async getGroupsWithMembershipRule(): Promise<Group[]> {
+      return [...this.groups.values()].filter(group => group.membershipRule);
+    }
+
+    async getGroupsContainingMember(memberId: string, type: 'user' | 'group' = 'user'): Promise<Group[]> {
+      return [...this.groups.values()].filter(group => group.members.some(member => isMember(member, type, memberId)));
+    }
+
     async getGroupsByUserId(userId: string): Promise<Group[]> {
       const assignment = this.assignments.get(userId);
       if (!assignment) return [];
@@ -344,6 +355,32 @@ describe('Integration Tests', () => {
       expect(salaryViewSenior.allowed).toBe(false);
     });
 
+    it('should evaluate schedule conditions against a pinned timestamp', async () => {
+      await rbac.grantPermission('alice', {
+        permission: 'deployments.create',
+        conditions: [{
+          attribute: 'timestamp',
+          operator: 'withinSchedule',
+          value: {
+            timeZone: 'Europe/Berlin',
+            days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+            startTime: '09:00',
+            endTime: '17:00'
+          }
+        }]
+      });
+
+      const weekday = await rbac.hasPermission('alice', 'deployments.create', {
+        timestamp: new Date('2026-03-11T10:00:00Z') // Wednesday 11:00 in Berlin
+      });
+      const weekend = await rbac.hasPermission('alice', 'deployments.create', {
+        timestamp: new Date('2026-03-14T10:00:00Z') // Saturday
+      });
+
+      expect(weekday.allowed).toBe(true);
+      expect(weekend.allowed).toBe(false);
+    });
+
     it('should handle self-service permissions', async () => {
       // Users should be able to access their own profiles via self-service role
       const aliceProfile = await rbac.hasPermission('alice', 'profile.read');
@@ -372,6 +409,732 @@ describe('Integration Tests', () => {
       expect(campaignsPermission.allowed).toBe(true); // Group permission
       expect(profilePermission.allowed).toBe(true); // Role permission
     });
+
+    it('should evaluate loaded permissions synchronously with deny grants', async () => {
+      const permissions: ConditionalPermission[] = [
+        { permission: 'campaigns.*' },
+        { permission: 'campaigns.delete', effect: 'deny' }
+      ];
+
+      expect(rbac.evaluatePermission('bob', 'campaigns.create', permissions).allowed).toBe(true);
+      expect(rbac.evaluatePermission('bob', 'campaigns.delete', permissions).allowed).toBe(false);
+    });
+  });
+
+  describe('Attribute Providers', () => {
+    const createRbac = (attributeProviders: RBACConfig['attributeProviders'], extra: Partial<RBACConfig> = {}) =>
+      new RBAC({ connector, attributeProviders, ...extra });
+
+    beforeEach(async () => {
+      await rbac.grantPermission('alice', {
+        permission: 'documents.edit',
+        conditions: [
+          { attribute: 'attributes.resource.locked', operator: 'equals', value: false },
+          { attribute: 'subject.plan', operator: 'in', value: ['pro', 'enterprise'] }
+        ]
+      });
+    });
+
+    it('should load referenced attributes from providers', async () => {
+      const plan = jest.fn(async () => 'pro');
+      const resource = jest.fn(async (context: any) => ({ locked: context.attributes.resource.id === 'doc-2' }));
+      const providerRbac = createRbac({ 'subject.plan': plan, 'attributes.resource.*': resource });
+
+      const unlocked = await providerRbac.hasPermission('alice', 'documents.edit', {
+        attributes: { resource: { id: 'doc-1' } }
+      });
+      const locked = await providerRbac.hasPermission('alice', 'documents.edit', {
+        attributes: { resource: { id: 'doc-2' } }
+      });
+
+      expect(unlocked.allowed).toBe(true);
+      expect(locked.allowed).toBe(false);
+      expect(plan).toHaveBeenCalledWith(expect.objectContaining({ userId: 'alice' }), 'subject.plan');
+    });
+
+    it('should only call providers referenced by matching permissions', async () => {
+      const plan = jest.fn(async () => 'pro');
+      const providerRbac = createRbac({ 'subject.plan': plan });
+
+      await providerRbac.hasPermission('alice', 'code.read');
+
+      expect(plan).not.toHaveBeenCalled();
+    });
+
+    it('should prefer values supplied by the caller', async () => {
+      const resource = jest.fn(async () => ({ locked: true, owner: 'bob' }));
+      const providerRbac = createRbac({ 'subject.plan': async () => 'pro', 'attributes.resource.*': resource });
+      const context = { attributes: { resource: { locked: false } } };
+
+      const result = await providerRbac.hasPermission('alice', 'documents.edit', context);
+
+      expect(result.allowed).toBe(true);
+      expect(resource).not.toHaveBeenCalled();
+      expect(context).toEqual({ attributes: { resource: { locked: false } } });
+    });
+
+    it('should memoize providers across a batch check', async () => {
+      await rbac.grantPermission('alice', {
+        permission: 'documents.share',
+        conditions: [{ attribute: 'subject.plan', operator: 'equals', value: 'enterprise' }]
+      });
+      const plan = jest.fn(async () => 'pro');
+      const providerRbac = createRbac({ 'subject.plan': plan });
+
+      const results = await providerRbac.hasPermissions('alice', ['documents.edit', 'documents.share'], {
+        attributes: { resource: { locked: false } }
+      });
+
+      expect(results['documents.edit'].allowed).toBe(true);
+      expect(results['documents.share'].allowed).toBe(false);
+      expect(plan).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deny when a provider fails or times out', async () => {
+      const failing = createRbac({ 'subject.plan': async () => { throw new Error('billing unavailable'); } });
+      const slow = createRbac(
+        { 'subject.plan': () => new Promise(resolve => setTimeout(() => resolve('pro'), 50)) },
+        { attributeProviderTimeout: 10 }
+      );
+      const context = { attributes: { resource: { locked: false } } };
+
+      expect((await failing.hasPermission('alice', 'documents.edit', context)).allowed).toBe(false);
+      expect((await slow.hasPermission('alice', 'documents.edit', context)).allowed).toBe(false);
+    });
+
+    it('should still apply denies on attributes whose provider fails or times out', async () => {
+      await rbac.grantPermission('bob', { permission: 'docs.edit' });
+      await rbac.grantPermission('bob', {
+        permission: 'docs.edit',
+        effect: 'deny',
+        conditions: [{ attribute: 'attributes.resource.locked', operator: 'equals', value: true }]
+      });
+      const failing = createRbac({ 'attributes.resource.*': async () => { throw new Error('store unavailable'); } });
+      const slow = createRbac(
+        { 'attributes.resource.*': () => new Promise(resolve => setTimeout(() => resolve({ locked: false }), 50)) },
+        { attributeProviderTimeout: 10 }
+      );
+      const healthy = createRbac({ 'attributes.resource.*': async () => ({ locked: false }) });
+      const context = { attributes: { resource: { id: 'doc-1' } } };
+
+      expect((await failing.hasPermission('bob', 'docs.edit', context)).allowed).toBe(false);
+      expect((await slow.hasPermission('bob', 'docs.edit', context)).allowed).toBe(false);
+      expect((await healthy.hasPermission('bob', 'docs.edit', context)).allowed).toBe(true);
+    });
+
+    it('should rethrow provider failures in strict mode', async () => {
+      const strict = createRbac(
+        { 'subject.plan': async () => { throw new Error('billing unavailable'); } },
+        { strictMode: true }
+      );
+
+      await expect(strict.hasPermission('alice', 'documents.edit', {
+        attributes: { resource: { locked: false } }
+      })).rejects.toThrow('billing unavailable');
+    });
+  });
+
+  describe('Subject Attributes', () => {
+    beforeEach(async () => {
+      await rbac.grantPermission('alice', {
+        permission: 'payroll.view',
+        conditions: [{ attribute: 'subject.metadata.department', operator: 'in', value: ['engineering', 'finance'] }]
+      });
+      await rbac.grantPermission('bob', {
+        permission: 'payroll.view',
+        conditions: [{ attribute: 'subject.metadata.department', operator: 'in', value: ['engineering', 'finance'] }]
+      });
+    });
+
+    it('should expose the user record as subject', async () => {
+      const subjectRbac = new RBAC({ connector, subjectAttributes: true });
+
+      expect((await subjectRbac.hasPermission('alice', 'payroll.view')).allowed).toBe(true);
+      expect((await subjectRbac.hasPermission('bob', 'payroll.view')).allowed).toBe(false);
+    });
+
+    it('should expose subject to expressions', async () => {
+      await rbac.grantPermission('alice', {
+        permission: 'reviews.approve',
+        expression: 'subject.metadata.level in ["senior", "manager"] && subject.email.endsWith("@company.com")'
+      });
+      const subjectRbac = new RBAC({ connector, subjectAttributes: true });
+
+      expect((await subjectRbac.hasPermission('alice', 'reviews.approve')).allowed).toBe(true);
+    });
+
+    it('should not load the user unless enabled and referenced', async () => {
+      const getUser = jest.spyOn(connector, 'getUser');
+
+      await rbac.hasPermission('alice', 'payroll.view');
+      await new RBAC({ connector, subjectAttributes: true }).hasPermission('alice', 'code.read');
+
+      expect(getUser).not.toHaveBeenCalled();
+    });
+
+    it('should cache loaded subjects when caching is enabled', async () => {
+      const getUser = jest.spyOn(connector, 'getUser');
+      const subjectRbac = new RBAC({ connector, subjectAttributes: true, cacheEnabled: true });
+
+      await subjectRbac.hasPermission('alice', 'payroll.view');
+      await subjectRbac.hasPermission('alice', 'payroll.view');
+      expect(getUser).toHaveBeenCalledTimes(1);
+
+      subjectRbac.clearCache();
+      await subjectRbac.hasPermission('alice', 'payroll.view');
+      expect(getUser).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let the caller supply subject attributes', async () => {
+      const subjectRbac = new RBAC({ connector, subjectAttributes: true });
+
+      const result = await subjectRbac.hasPermission('bob', 'payroll.view', {
+        subject: { metadata: { department: 'finance' } }
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe('Permission Catalog', () => {
+    const catalog = {
+      code: { actions: { read: 'Read code', write: 'Write code' } },
+      invoice: { actions: { read: 'Read invoices', export: 'Export invoices' } }
+    };
+
+    it('should reject unknown permissions in strict mode', async () => {
+      const strict = new RBAC({ connector, strictMode: true, catalog });
+
+      await expect(strict.createRole({ id: 'billing', name: 'Billing', permissions: [{ permission: 'invoice.raed' }] }))
+        .rejects.toThrow('Unknown permission: invoice.raed (did you mean invoice.read?)');
+      await expect(strict.grantPermission('alice', { permission: 'invoices.*' }))
+        .rejects.toThrow('Unknown permission: invoices.*');
+      await expect(strict.hasPermission('alice', 'code.raed'))
+        .rejects.toThrow('Unknown permission: code.raed (did you mean code.read?)');
+      await expect(strict.hasPermissions('alice', ['code.read', 'code.wrte']))
+        .rejects.toThrow('Unknown permission: code.wrte');
+
+      await strict.createRole({ id: 'billing', name: 'Billing', permissions: [{ permission: 'invoice.*' }] });
+      expect((await strict.hasPermission('alice', 'code.read')).allowed).toBe(true);
+      expect(strict.getCatalog()!.getPermissions()).toHaveLength(4);
+    });
+
+    it('should accept mixed-case catalog entries in strict mode', async () => {
+      const strict = new RBAC({ connector, strictMode: true, catalog: { invoiceItem: { actions: { read: 'Read invoice items' } } } });
+
+      await strict.createRole({ id: 'items', name: 'Items', permissions: [{ permission: 'invoiceItem.read' }] });
+      await strict.assignRole('erin', 'items');
+
+      expect((await strict.hasPermission('erin', 'invoiceItem.read')).allowed).toBe(true);
+      await expect(strict.hasPermission('erin', 'invoiceItem.raed'))
+        .rejects.toThrow('Unknown permission: invoiceitem.raed (did you mean invoiceItem.read?)');
+    });
+
+    it('should restrict attributes read through valueFrom, placeholders and expressions', async () => {
+      const strict = new RBAC({
+        connector,
+        strictMode: true,
+        catalog: { invoice: { conditionAttributes: ['attributes.region'], actions: { read: 'Read invoices' } } }
+      });
+      const write = (permission: ConditionalPermission) =>
+        strict.createRole({ id: 'regional', name: 'Regional', permissions: [permission] });
+
+      await expect(write({ permission: 'invoice.read', conditions: [{ attribute: 'attributes.region', operator: 'equals', valueFrom: 'attributes.owner' }] }))
+        .rejects.toThrow('Condition attribute "attributes.owner" is not allowed for permission invoice.read');
+      await expect(write({ permission: 'invoice.read', conditions: [{ attribute: 'attributes.region', operator: 'equals', value: '${subject.region}' }] }))
+        .rejects.toThrow('Condition attribute "subject.region" is not allowed');
+      await expect(write({ permission: 'invoice.read', expression: 'attributes.amount < 100' }))
+        .rejects.toThrow('Condition attribute "attributes.amount" is not allowed');
+      await expect(write({ permission: 'invoice.read', resource: 'orgs/acme', expression: 'attributes.region == "eu"' }))
+        .resolves.toBeDefined();
+    });
+
+    it('should not enforce the catalog outside strict mode', async () => {
+      const lenient = new RBAC({ connector, catalog });
+
+      await expect(lenient.grantPermission('alice', { permission: 'invoice.raed' })).resolves.toBeUndefined();
+      expect((await lenient.hasPermission('alice', 'code.raed')).allowed).toBe(true); // Matched by code.*
+    });
+  });
+
+  describe('Permission Normalization', () => {
+    it('should normalize roles and direct grants when they are written', async () => {
+      await rbac.createRole({ id: 'reporter', name: 'Reporter', permissions: [{ permission: ' Reports..Read ' }] });
+      await rbac.assignRole('bob', 'reporter');
+      await rbac.grantPermission('bob', { permission: 'Audit.Export' });
+
+      expect((await connector.getRole('reporter'))!.permissions).toEqual([{ permission: 'reports.read' }]);
+      expect((await rbac.hasPermission('bob', 'Reports.Read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('bob', 'audit.export')).allowed).toBe(true);
+
+      await rbac.revokePermission('bob', 'AUDIT.EXPORT');
+      expect((await rbac.hasPermission('bob', 'audit.export')).allowed).toBe(false);
+    });
+
+    it('should normalize grants stored straight through the connector when they are read', async () => {
+      await connector.createRole({ id: 'legacy', name: 'Legacy', permissions: [{ permission: 'Reports.Read' }] });
+      await connector.createUserAssignment({
+        userId: 'carol',
+        roleIds: ['legacy'],
+        groupIds: [],
+        directPermissions: [{ permission: ' Audit..Export ' }]
+      });
+
+      expect((await rbac.hasPermission('carol', 'reports.read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('carol', 'Reports.Read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('carol', 'audit.export')).allowed).toBe(true);
+      expect((await rbac.getUserEffectivePermissions('carol')).map(p => p.permission)).toEqual(['audit.export', 'reports.read']);
+
+      await rbac.revokePermission('carol', 'audit.export');
+      expect((await rbac.hasPermission('carol', 'audit.export')).allowed).toBe(false);
+    });
+
+    it('should keep case with a case-sensitive policy', async () => {
+      const caseSensitive = new RBAC({ connector, normalization: { caseSensitive: true } });
+      await caseSensitive.createRole({ id: 'reporter', name: 'Reporter', permissions: [{ permission: 'Reports.Read' }] });
+      await caseSensitive.assignRole('bob', 'reporter');
+
+      expect((await caseSensitive.hasPermission('bob', 'Reports.Read')).allowed).toBe(true);
+      expect((await caseSensitive.hasPermission('bob', 'reports.read')).allowed).toBe(false);
+    });
+
+    it('should rewrite existing data with the migration utility', async () => {
+      await connector.createRole({ id: 'legacy', name: 'Legacy', permissions: [{ permission: 'Reports.Read' }] });
+      await connector.createUserAssignment({
+        userId: 'carol',
+        roleIds: ['legacy'],
+        groupIds: [],
+        directPermissions: [{ permission: 'Audit..Export' }]
+      });
+      const updated = await migrationUtils.normalizeStoredPermissions(connector, {
+        roleIds: ['legacy', 'engineer'],
+        groupIds: ['backend-team'],
+        userIds: ['carol', 'alice']
+      });
+
+      expect(updated).toEqual({ roles: ['legacy'], groups: [], users: ['carol'] });
+      expect((await connector.getRole('legacy'))!.permissions).toEqual([{ permission: 'reports.read' }]);
+      expect((await rbac.hasPermission('carol', 'reports.read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('carol', 'audit.export')).allowed).toBe(true);
+    });
+  });
+
+  describe('Resource Hierarchy', () => {
+    beforeEach(async () => {
+      await connector.createUserAssignment({
+        userId: 'dana',
+        roleIds: [],
+        groupIds: [],
+        directPermissions: [
+          { permission: 'docs.read', resource: 'orgs/acme' },
+          { permission: 'docs.read', resource: 'orgs/acme/projects/secret', effect: 'deny' },
+          { permission: 'docs.*', resource: 'orgs/acme/projects/alpha' }
+        ]
+      });
+    });
+
+    it('should apply grants bound at an ancestor of the checked resource', async () => {
+      expect((await rbac.hasPermission('dana', 'docs.read', { resource: 'orgs/acme/projects/alpha/docs/42' })).allowed)
+        .toBe(true);
+      expect((await rbac.hasPermission('dana', 'docs.read', { resource: 'orgs/acme/projects/secret/docs/7' })).allowed)
+        .toBe(false);
+      expect((await rbac.hasPermission('dana', 'docs.read', { resource: 'orgs/globex/docs/1' })).allowed).toBe(false);
+      expect((await rbac.hasPermission('dana', 'docs.read')).allowed).toBe(false);
+    });
+
+    it('should resolve the parent chain of resources through the resolver', async () => {
+      const parents: Record<string, string[]> = {
+        'docs/42': ['orgs/acme/projects/alpha', 'orgs/acme'],
+        'docs/7': ['orgs/acme/projects/secret', 'orgs/acme']
+      };
+      const resourceResolver = jest.fn(async (resource: string) => parents[resource] || []);
+      const resolving = new RBAC({ connector, resourceResolver });
+
+      expect((await resolving.hasPermission('dana', 'docs.read', { resource: 'docs/42' })).allowed).toBe(true);
+      expect((await resolving.hasPermission('dana', 'docs.read', { resource: 'docs/7' })).allowed).toBe(false);
+
+      resourceResolver.mockClear();
+      const results = await resolving.hasPermissions('dana', ['docs.read', 'docs.update'], { resource: 'docs/42' });
+      expect(results['docs.update'].allowed).toBe(true);
+      expect(resourceResolver).toHaveBeenCalledTimes(1);
+
+      resourceResolver.mockClear();
+      await resolving.hasPermission('alice', 'code.read', { resource: 'docs/42' });
+      expect(resourceResolver).not.toHaveBeenCalled(); // No resource-bound grant matches
+    });
+
+    it('should reject invalid resolver results', async () => {
+      const resolving = new RBAC({ connector, resourceResolver: () => 'orgs/acme' as any });
+
+      await expect(resolving.hasPermission('dana', 'docs.read', { resource: 'docs/42' }))
+        .rejects.toThrow('Resource resolver must return an array of resource paths for docs/42');
+    });
+  });
+
+  describe('Group Membership', () => {
+    beforeEach(async () => {
+      await connector.createGroup({
+        id: 'auditors',
+        name: 'Auditors',
+        members: ['gina'],
+        permissions: [{ permission: 'audit.read' }]
+      });
+    });
+
+    it('should resolve membership recorded on the group side', async () => {
+      expect((await rbac.hasPermission('gina', 'audit.read')).allowed).toBe(true);
+      expect((await rbac.getUserGroups('gina')).map(group => group.id)).toEqual(['auditors']);
+      expect(groupUtils.containsUser((await connector.getGroup('auditors'))!, 'gina')).toBe(true);
+    });
+
+    it('should union both sides without duplicates', async () => {
+      await rbac.addUserToGroup('gina', 'auditors');
+      await rbac.addUserToGroup('gina', 'backend-team');
+
+      expect((await rbac.getUserGroups('gina')).map(group => group.id)).toEqual(['auditors', 'backend-team', 'engineering']);
+    });
+
+    it('should remove membership from both sides', async () => {
+      await rbac.addUserToGroup('gina', 'auditors');
+      await rbac.removeUserFromGroup('gina', 'auditors');
+
+      expect((await connector.getGroup('auditors'))!.members).toEqual([]);
+      expect((await rbac.hasPermission('gina', 'audit.read')).allowed).toBe(false);
+    });
+  });
+
+  describe('Group References', () => {
+    it('should store members as references and follow nested group changes', async () => {
+      const engineering = (await connector.getGroup('engineering'))!;
+      await rbac.createGroup({
+        id: 'platform',
+        name: 'Platform',
+        members: ['hank', engineering],
+        permissions: [{ permission: 'clusters.read' }]
+      });
+
+      expect((await connector.getGroup('platform'))!.members).toEqual([userMember('hank'), groupMember('engineering')]);
+
+      await rbac.updateGroup('engineering', { permissions: [{ permission: 'tools.access' }, { permission: 'budgets.read' }] });
+
+      expect((await rbac.hasPermission('hank', 'clusters.read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('hank', 'budgets.read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('hank', 'engineering.deploy')).allowed).toBe(false);
+    });
+
+    it('should migrate embedded groups to references', async () => {
+      const contractors = await connector.createGroup({ id: 'contractors', name: 'Contractors', members: [], permissions: [{ permission: 'timesheets.submit' }] });
+      await connector.createGroup({
+        id: 'vendors',
+        name: 'Vendors',
+        members: ['ivan', contractors, { ...contractors, id: 'auditors-external', members: [] }],
+        permissions: []
+      });
+
+      const migrated = await migrationUtils.migrateGroupMembers(connector, ['vendors', 'backend-team']);
+
+      expect(migrated).toEqual({ updated: ['vendors', 'backend-team'], created: ['auditors-external'] });
+      expect((await connector.getGroup('vendors'))!.members).toEqual([
+        userMember('ivan'), groupMember('contractors'), groupMember('auditors-external')
+      ]);
+      const created = (await connector.getGroup('auditors-external'))!;
+      expect(created.permissions).toEqual([{ permission: 'timesheets.submit' }]);
+      // Unset optional fields are left out rather than written as undefined
+      expect(Object.values(created)).not.toContain(undefined);
+      expect('description' in created).toBe(false);
+      expect((await rbac.hasPermission('ivan', 'timesheets.submit')).allowed).toBe(true);
+      expect((await rbac.hasPermission('alice', 'engineering.deploy')).allowed).toBe(true);
+
+      expect(await migrationUtils.migrateGroupMembers(connector, ['vendors'])).toEqual({ updated: [], created: [] });
+    });
+  });
+
+  describe('Group Nesting Limits', () => {
+    const createGroup = (target: RBAC, id: string, nested: string[]) =>
+      target.createGroup({ id, name: id, members: nested.map(groupMember), permissions: [] });
+
+    it('should reject nesting cycles with their path', async () => {
+      await createGroup(rbac, 'ring-a', []);
+      await createGroup(rbac, 'ring-b', ['ring-a']);
+      await createGroup(rbac, 'ring-c', ['ring-b']);
+
+      await expect(rbac.updateGroup('ring-a', { members: [groupMember('ring-c')] }))
+        .rejects.toThrow('Group nesting cycle: ring-a -> ring-c -> ring-b -> ring-a');
+      await expect(createGroup(rbac, 'ring-self', ['ring-self'])).rejects.toThrow('Group nesting cycle: ring-self -> ring-self');
+      expect((await connector.getGroup('ring-a'))!.members).toEqual([]);
+    });
+
+    it('should enforce maxGroupDepth above and below the written group', async () => {
+      const shallow = new RBAC({ connector, maxGroupDepth: 2 });
+      await createGroup(shallow, 'level-1', []);
+      await createGroup(shallow, 'level-2', ['level-1']);
+      await createGroup(shallow, 'level-3', ['level-2']);
+
+      await expect(createGroup(shallow, 'level-4', ['level-3']))
+        .rejects.toThrow('Group nesting too deep: level-4 -> level-3 -> level-2 -> level-1 has depth 3, exceeding maxGroupDepth 2');
+
+      await createGroup(shallow, 'level-0', []);
+      await expect(shallow.updateGroup('level-1', { members: [groupMember('level-0')] }))
+        .rejects.toThrow('Group nesting too deep: level-3 -> level-2 -> level-1 -> level-0');
+    });
+  });
+
+  describe('Dynamic Groups', () => {
+    let dynamic: RBAC;
+
+    beforeEach(async () => {
+      dynamic = new RBAC({ connector, membershipRules: true });
+      await rbac.createGroup({
+        id: 'all-engineers',
+        name: 'All Engineers',
+        members: [],
+        membershipRule: [{ attribute: 'metadata.department', operator: 'equals', value: 'engineering' }],
+        permissions: [{ permission: 'handbook.read' }]
+      });
+    });
+
+    it('should compute membership from the user record', async () => {
+      expect((await dynamic.getUserGroups('charlie')).map(group => group.id)).toContain('all-engineers');
+      expect((await dynamic.hasPermission('charlie', 'handbook.read')).allowed).toBe(true);
+      expect((await dynamic.hasPermission('bob', 'handbook.read')).allowed).toBe(false);
+    });
+
+    it('should only evaluate membership rules when enabled', async () => {
+      const listRuleGroups = jest.spyOn(connector, 'getGroupsWithMembershipRule');
+
+      expect((await rbac.hasPermission('charlie', 'handbook.read')).allowed).toBe(false);
+      expect(listRuleGroups).not.toHaveBeenCalled();
+    });
+
+    it('should cache the rule groups with the user cache', async () => {
+      const cached = new RBAC({ connector, membershipRules: true, cacheEnabled: true });
+      const listRuleGroups = jest.spyOn(connector, 'getGroupsWithMembershipRule');
+
+      await cached.hasPermission('charlie', 'handbook.read');
+      await cached.hasPermission('alice', 'handbook.read');
+
+      expect(listRuleGroups).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let a broken rule fail unrelated checks', async () => {
+      await connector.createGroup({
+        id: 'broken-rule',
+        name: 'Broken Rule',
+        members: [],
+        membershipRule: [{ attribute: 'email', operator: 'looksLike' as any, value: 'x' }],
+        permissions: [{ permission: 'secrets.read' }]
+      });
+
+      expect((await dynamic.hasPermission('charlie', 'handbook.read')).allowed).toBe(true);
+      expect((await dynamic.hasPermission('charlie', 'secrets.read')).allowed).toBe(false);
+      await expect(new RBAC({ connector, membershipRules: true, strictMode: true }).hasPermission('charlie', 'handbook.read'))
+        .rejects.toThrow('Unknown condition operator: looksLike');
+    });
+
+    it('should follow user record changes and support condition trees', async () => {
+      await rbac.createGroup({
+        id: 'acme-staff',
+        name: 'Acme Staff',
+        members: [],
+        membershipRule: [{ anyOf: [
+          { attribute: 'email', operator: 'endsWith', value: '@acme.com' },
+          { attribute: 'metadata.contractor', operator: 'equals', value: false }
+        ] }],
+        permissions: [{ permission: 'intranet.read' }]
+      });
+
+      expect((await dynamic.hasPermission('bob', 'intranet.read')).allowed).toBe(false);
+
+      await connector.updateUser('bob', { email: 'bob@acme.com' });
+
+      expect((await dynamic.hasPermission('bob', 'intranet.read')).allowed).toBe(true);
+    });
+
+    it('should reject invalid rules on write', async () => {
+      await expect(rbac.updateGroup('all-engineers', {
+        membershipRule: [{ attribute: 'email', operator: 'looksLike' as any, value: 'x' }]
+      })).rejects.toThrow('Invalid condition for membership rule of group all-engineers');
+    });
+
+    it('should materialize membership into group members', async () => {
+      await rbac.updateGroup('all-engineers', { members: [userMember('bob'), groupMember('engineering')] });
+
+      expect(await rbac.materializeGroupMembership('all-engineers', ['alice', 'bob', 'charlie', 'nobody'])).toEqual(['alice', 'charlie']);
+      expect((await connector.getGroup('all-engineers'))!.members).toEqual([
+        groupMember('engineering'), userMember('alice'), userMember('charlie')
+      ]);
+      await expect(rbac.materializeGroupMembership('engineering', ['alice'])).rejects.toThrow('Group engineering has no membership rule to materialize');
+    });
+
+    it('should materialize membership for connectors without member lookups', async () => {
+      // Only the assignment side is visible without getGroupsContainingMember
+      const plainConnector: DatabaseConnector = Object.assign(Object.create(connector), {
+        getGroupsContainingMember: undefined,
+        getGroupsWithMembershipRule: undefined
+      });
+      const plain = new RBAC({ connector: plainConnector });
+
+      expect((await plain.hasPermission('charlie', 'handbook.read')).allowed).toBe(false);
+
+      await plain.materializeGroupMembership('all-engineers', ['alice', 'bob', 'charlie']);
+
+      expect((await plain.hasPermission('alice', 'handbook.read')).allowed).toBe(true);
+      expect((await plain.hasPermission('charlie', 'handbook.read')).allowed).toBe(true);
+      expect((await plain.hasPermission('bob', 'handbook.read')).allowed).toBe(false);
+
+      // A later call replaces the earlier members instead of adding to them
+      await plain.materializeGroupMembership('all-engineers', ['alice']);
+
+      expect((await connector.getUserAssignment('charlie'))!.groupIds).not.toContain('all-engineers');
+      expect((await plain.hasPermission('charlie', 'handbook.read')).allowed).toBe(false);
+      expect((await plain.hasPermission('alice', 'handbook.read')).allowed).toBe(true);
+    });
+  });
+
+  describe('Role Inheritance', () => {
+    beforeEach(async () => {
+      await rbac.createRole({ id: 'viewer', name: 'Viewer', permissions: [{ permission: 'wiki.read' }] });
+      await rbac.createRole({ id: 'editor', name: 'Editor', permissions: [{ permission: 'wiki.update' }], inherits: ['viewer'] });
+      await rbac.createRole({ id: 'chief', name: 'Chief Editor', permissions: [{ permission: 'wiki.publish' }], inherits: ['editor'] });
+      await rbac.assignRole('erin', 'chief');
+    });
+
+    it('should resolve inherited roles and permissions transitively', async () => {
+      expect((await rbac.getUserRoles('erin')).map(role => role.id)).toEqual(['chief', 'editor', 'viewer']);
+      expect((await rbac.hasPermission('erin', 'wiki.read')).allowed).toBe(true);
+      expect((await rbac.hasPermission('erin', 'wiki.update')).allowed).toBe(true);
+    });
+
+    it('should show the parent role a grant came from', async () => {
+      const grants = await rbac.getUserPermissionGrants('erin');
+      expect(grants.find(grant => grant.permission.permission === 'wiki.read')!.source).toEqual({
+        type: 'role',
+        id: 'viewer',
+        chain: ['role:viewer', 'role:editor', 'role:chief']
+      });
+
+      const { trace } = await rbac.hasPermission('erin', 'wiki.read', {}, { explain: true });
+      const candidate = trace!.candidates.find(c => c.applicable)!;
+      expect(debugUtils.formatPermissionSource(candidate.source!)).toBe('role:viewer <- role:editor <- role:chief');
+    });
+
+    it('should reject inheritance cycles on write', async () => {
+      await expect(rbac.updateRole('viewer', { inherits: ['chief'] }))
+        .rejects.toThrow('Role inheritance cycle: viewer -> chief -> editor -> viewer');
+      await expect(rbac.createRole({ id: 'loop', name: 'Loop', permissions: [], inherits: ['loop'] }))
+        .rejects.toThrow('Role inheritance cycle: loop -> loop');
+    });
+
+    it('should tolerate cycles written directly to the connector', async () => {
+      await connector.updateRole('viewer', { inherits: ['chief'] });
+
+      expect((await rbac.getUserRoles('erin')).map(role => role.id)).toEqual(['chief', 'editor', 'viewer']);
+      expect((await rbac.hasPermission('erin', 'wiki.publish')).allowed).toBe(true);
+    });
+  });
+
+  describe('Action Hierarchy', () => {
+    it('should let manage and admin imply narrower actions when configured', async () => {
+      const hierarchical = new RBAC({ connector, actionHierarchy: defaultActionHierarchy });
+      await hierarchical.createRole({
+        id: 'doc-manager',
+        name: 'Document Manager',
+        permissions: [{ permission: commonPermissions.manage('documents') }, { permission: commonPermissions.admin('wiki') }]
+      });
+      await hierarchical.assignRole('bob', 'doc-manager');
+
+      const results = await hierarchical.hasPermissions('bob', ['documents.read', 'documents.delete', 'wiki.update', 'documents.publish']);
+
+      expect(Object.fromEntries(Object.entries(results).map(([permission, result]) => [permission, result.allowed]))).toEqual({
+        'documents.read': true,
+        'documents.delete': true,
+        'wiki.update': true,
+        'documents.publish': false
+      });
+      expect((await rbac.hasPermission('bob', 'documents.read')).allowed).toBe(false);
+    });
+  });
+
+  describe('Permission Provenance', () => {
+    it('should tag effective permissions with their source', async () => {
+      await rbac.grantPermission('alice', { permission: 'social.post' });
+
+      const grants = await rbac.getUserPermissionGrants('alice');
+
+      expect(grants.map(grant => grant.permission)).toEqual(await rbac.getUserEffectivePermissions('alice'));
+      expect(grants[0]).toEqual({ permission: { permission: 'social.post' }, source: { type: 'direct', chain: [] } });
+      expect(grants[1].source).toEqual({ type: 'role', id: 'engineer', chain: ['role:engineer'] });
+      expect(grants.find(grant => grant.permission.permission === 'engineering.*')!.source).toEqual({
+        type: 'group',
+        id: 'engineering',
+        chain: ['group:engineering', 'group:backend-team']
+      });
+    });
+
+    it('should filter grants by origin', async () => {
+      const grants = await rbac.getUserPermissionGrants('alice');
+      const fromGroups = grants.filter(grant => grant.source.chain.includes('group:backend-team'));
+
+      expect(fromGroups.map(grant => grant.permission.permission)).toEqual([
+        'databases.*', 'apis.*', 'engineering.*', 'tools.access'
+      ]);
+    });
+  });
+
+  describe('Explain Mode', () => {
+    it('should trace every candidate with its source', async () => {
+      const result = await rbac.hasPermission('alice', 'engineering.access', {}, { explain: true });
+
+      expect(result.allowed).toBe(true);
+      const trace = result.trace!;
+      expect(trace.permission).toBe('engineering.access');
+      expect(trace.combiningAlgorithm).toBe('deny-overrides');
+      expect(trace.candidates).toHaveLength(9);
+      expect(trace.candidates[0]).toMatchObject({
+        permission: { permission: 'code.*' },
+        source: { type: 'role', id: 'engineer' },
+        patternMatched: false,
+        applicable: false
+      });
+
+      const granting = trace.candidates.filter(candidate => candidate.applicable);
+      expect(granting).toHaveLength(1);
+      expect(granting[0]).toMatchObject({
+        permission: { permission: 'engineering.*' },
+        source: { type: 'group', id: 'engineering', chain: ['group:engineering', 'group:backend-team'] },
+        conditions: []
+      });
+      expect(trace.decidedBy).toEqual([{ permission: 'engineering.*' }]);
+      expect(trace.rule).toBe('deny-overrides: no applicable deny');
+    });
+
+    it('should explain why a conditional permission was denied', async () => {
+      await rbac.grantPermission('alice', {
+        permission: 'invoices.export',
+        conditions: [{ attribute: 'attributes.region', operator: 'equals', valueFrom: 'attributes.homeRegion' }]
+      });
+
+      const result = await rbac.hasPermission(
+        'alice',
+        'invoices.export',
+        { attributes: { region: 'us', homeRegion: 'eu' } },
+        { explain: true }
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.trace!.candidates[0]).toMatchObject({
+        source: { type: 'direct' },
+        patternMatched: true,
+        applicable: false,
+        conditions: [{ type: 'condition', left: 'us', right: 'eu', outcome: false }]
+      });
+      expect(result.trace!.rule).toBe('no applicable permission (default deny)');
+    });
+
+    it('should not attach a trace by default', async () => {
+      const result = await rbac.hasPermission('alice', 'engineering.access');
+      expect(result.trace).toBeUndefined();
+    });
   });
 
   describe('Permission Caching', () => {
@@ -496,6 +1259,35 @@ describe('Integration Tests', () => {
       const viewerRole = await connector.getRole('viewer');
       expect(viewerRole?.name).toBe('Viewer');
     });
+
+    it('should only let owners use self-management permissions', async () => {
+      await templateManager.applyRoleTemplate('selfManager', 'self-manager');
+      await rbac.assignRole('kate', 'self-manager');
+      await rbac.grantPermission('kate', permissionUtils.createConditionalPermission('notes.update', { ownerOnly: true }));
+
+      const own = { attributes: { ownerId: 'kate' } };
+      const others = { attributes: { ownerId: 'bob' } };
+
+      expect((await rbac.hasPermission('kate', 'profile.update', own)).allowed).toBe(true);
+      expect((await rbac.hasPermission('kate', 'profile.update', others)).allowed).toBe(false);
+      expect((await rbac.hasPermission('kate', 'profile.update')).allowed).toBe(false);
+      expect((await rbac.hasPermission('kate', 'notes.update', own)).allowed).toBe(true);
+      expect((await rbac.hasPermission('kate', 'notes.update', others)).allowed).toBe(false);
+    });
+
+    it('should build templates with the RBAC permission separator', async () => {
+      const colonRbac = new RBAC({ connector, permissionSeparator: ':' });
+      const colonTemplates = new TemplateManager(connector, colonRbac);
+
+      await colonTemplates.applyRoleTemplate('viewer', 'colon-viewer', ['docs']);
+      await connector.createUser({ id: 'frank', email: 'frank@company.com', name: 'Frank' });
+      await connector.createUserAssignment({ userId: 'frank', roleIds: ['colon-viewer'], groupIds: [] });
+
+      expect(colonRbac.getPermissionSeparator()).toBe(':');
+      expect(createPermissionUtils(colonRbac).createPermission('docs', 'read')).toBe('docs:read');
+      expect((await colonRbac.hasPermission('frank', 'docs:read')).allowed).toBe(true);
+      expect((await colonRbac.hasPermission('frank', 'docs:write')).allowed).toBe(false);
+    });
   });
 
   describe('Batch Operations', () => {
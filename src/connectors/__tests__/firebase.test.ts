@@ -14,7 +14,8 @@ const mockFirestore = {
 const mockCollection = {
   doc: jest.fn(),
   get: jest.fn(),
-  add: jest.fn()
+  add: jest.fn(),
+  where: jest.fn()
 };
 
 const mockDoc = {
@@ -43,6 +44,7 @@ describe('FirebaseConnector', () => {
     mockFirestore.collection.mockReturnValue(mockCollection);
     mockCollection.doc.mockReturnValue(mockDoc);
     mockCollection.get.mockResolvedValue(mockQuerySnapshot);
+    mockCollection.where.mockReturnValue(mockCollection);
     
     connector = new FirebaseConnector(mockFirestore as any);
     
@@ -297,6 +299,63 @@ describe('FirebaseConnector', () => {
         expect(groups).toEqual([]);
       });
     });
+
+    describe('getGroupsContainingMember', () => {
+      it('should query groups whose members include the id', async () => {
+        const groupData = {
+          name: 'Auditors',
+          members: ['user-123'],
+          permissions: [],
+          createdAt: { toDate: () => new Date('2023-01-01') },
+          updatedAt: { toDate: () => new Date('2023-01-02') }
+        };
+
+        mockQuerySnapshot.forEach.mockImplementation((callback: any) => {
+          callback({ id: 'group-123', data: () => groupData });
+        });
+
+        const groups = await connector.getGroupsContainingMember('user-123');
+
+        expect(mockCollection.where).toHaveBeenCalledWith('members', 'array-contains-any', [{ type: 'user', id: 'user-123' }, 'user-123']);
+        expect(groups).toEqual([{
+          id: 'group-123',
+          ...groupData,
+          createdAt: new Date('2023-01-01'),
+          updatedAt: new Date('2023-01-02')
+        }]);
+      });
+
+      it('should query group references for nested groups', async () => {
+        mockQuerySnapshot.forEach.mockImplementation(() => {});
+
+        await connector.getGroupsContainingMember('group-123', 'group');
+
+        expect(mockCollection.where).toHaveBeenCalledWith('members', 'array-contains-any', [{ type: 'group', id: 'group-123' }]);
+      });
+
+      it('should throw error on failure', async () => {
+        mockCollection.get.mockRejectedValue(new Error('Firestore error'));
+
+        await expect(connector.getGroupsContainingMember('user-123')).rejects.toThrow('Failed to get groups containing member');
+      });
+    });
+
+    describe('getGroupsWithMembershipRule', () => {
+      it('should query groups that have a membership rule', async () => {
+        mockQuerySnapshot.forEach.mockImplementation(() => {});
+
+        const groups = await connector.getGroupsWithMembershipRule();
+
+        expect(mockCollection.where).toHaveBeenCalledWith('membershipRule', '!=', null);
+        expect(groups).toEqual([]);
+      });
+
+      it('should throw error on failure', async () => {
+        mockCollection.get.mockRejectedValue(new Error('Firestore error'));
+
+        await expect(connector.getGroupsWithMembershipRule()).rejects.toThrow('Failed to get groups with membership rule');
+      });
+    });
   });
 
   describe('Role operations', () => {
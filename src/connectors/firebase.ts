@@ -1,11 +1,13 @@
 import {
   User,
   Group,
+  GroupMemberRef,
   Role,
   UserAssignment,
   PermissionTemplate,
   DatabaseConnector
 } from '../core/types';
+import { groupMember, userMember } from '../core/members';
 
 // Firebase types (will be available when firebase is installed)
 type Firestore = any;
@@ -226,6 +228,56 @@ export class FirebaseConnector implements DatabaseConnector {
     }
   }
 
+  async getGroupsContainingMember(memberId: string, type: GroupMemberRef['type'] = 'user'): Promise<Group[]> {
+    try {
+      // Match references, and legacy bare ids for users
+      const refs = type === 'user' ? [userMember(memberId), memberId] : [groupMember(memberId)];
+      const snapshot = await this.db
+        .collection(this.collections.groups)
+        .where('members', 'array-contains-any', refs)
+        .get();
+
+      const groups: Group[] = [];
+      snapshot.forEach((doc: DocumentSnapshot) => {
+        const data = doc.data();
+        groups.push({
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date()
+        } as Group);
+      });
+
+      return groups;
+    } catch (error) {
+      throw new Error(`Failed to get groups containing member: ${error}`);
+    }
+  }
+
+  async getGroupsWithMembershipRule(): Promise<Group[]> {
+    try {
+      const snapshot = await this.db
+        .collection(this.collections.groups)
+        .where('membershipRule', '!=', null)
+        .get();
+
+      const groups: Group[] = [];
+      snapshot.forEach((doc: DocumentSnapshot) => {
+        const data = doc.data();
+        groups.push({
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date()
+        } as Group);
+      });
+
+      return groups;
+    } catch (error) {
+      throw new Error(`Failed to get groups with membership rule: ${error}`);
+    }
+  }
+
   // Role operations
   async getRole(roleId: string): Promise<Role | null> {
     try {
@@ -0,0 +1,150 @@
+import { PermissionCatalog, defineCatalog, uncheckedPermission } from '../catalog';
+import { PermissionCatalogDefinition, CatalogPermission, CatalogPermissionPattern } from '../types';
+import { createGatekeeper } from '../../index';
+
+describe('PermissionCatalog', () => {
+  const definition: PermissionCatalogDefinition = {
+    user: {
+      description: 'User accounts',
+      actions: { read: 'Read users', update: 'Update users', delete: 'Delete users' }
+    },
+    invoice: {
+      conditionAttributes: ['attributes.region'],
+      actions: {
+        read: 'Read invoices',
+        export: { description: 'Export invoices', conditionAttributes: ['timestamp'] }
+      }
+    }
+  };
+
+  let catalog: PermissionCatalog;
+
+  beforeEach(() => {
+    catalog = new PermissionCatalog(definition);
+  });
+
+  it('should register every resource action', () => {
+    expect(catalog.getPermissions()).toEqual([
+      'user.read', 'user.update', 'user.delete', 'invoice.read', 'invoice.export'
+    ]);
+    expect(catalog.getEntry('invoice.export')).toEqual({
+      permission: 'invoice.export',
+      resource: 'invoice',
+      action: 'export',
+      description: 'Export invoices',
+      conditionAttributes: ['attributes.region', 'timestamp']
+    });
+    expect(catalog.getEntry('user.read')!.conditionAttributes).toBeUndefined();
+  });
+
+  it('should recognize registered permissions and matching wildcards', () => {
+    expect(catalog.isKnown('user.read')).toBe(true);
+    expect(catalog.isKnown('user.*')).toBe(true);
+    expect(catalog.isKnown('*.read')).toBe(true);
+    expect(catalog.isKnown('*')).toBe(true);
+    expect(catalog.isKnown('user.raed')).toBe(false);
+    expect(catalog.isKnown('report.*')).toBe(false);
+    expect(catalog.isKnown('user.read.own')).toBe(false);
+  });
+
+  it('should suggest near misses', () => {
+    expect(catalog.suggest('user.raed')).toBe('user.read');
+    expect(catalog.suggest('invoices.export')).toBe('invoice.export');
+    expect(catalog.suggest('billing.plans.manage')).toBeUndefined();
+  });
+
+  it('should reject unknown permissions with a suggestion', () => {
+    expect(() => catalog.validate({ permission: 'user.raed' }))
+      .toThrow('Unknown permission: user.raed (did you mean user.read?)');
+    expect(() => catalog.validate({ permission: 'billing.manage' })).toThrow('Unknown permission: billing.manage');
+  });
+
+  it('should restrict condition attributes', () => {
+    expect(() => catalog.validate({
+      permission: 'invoice.export',
+      conditions: [{ attribute: 'attributes.region', operator: 'equals', value: 'eu' }]
+    })).not.toThrow();
+
+    expect(() => catalog.validate({
+      permission: 'invoice.*',
+      conditions: [{ anyOf: [{ attribute: 'attributes.amount', operator: 'lessThan', value: 100 }] }]
+    })).toThrow('Condition attribute "attributes.amount" is not allowed for permission invoice.read');
+
+    expect(() => catalog.validate({
+      permission: 'user.update',
+      conditions: [{ attribute: 'attributes.anything', operator: 'exists' }]
+    })).not.toThrow();
+  });
+
+  it('should compare normalized permissions when given a policy', () => {
+    const mixedCase = new PermissionCatalog({ invoiceItem: { actions: { read: 'Read invoice items' } } }, '.', {});
+    expect(mixedCase.isKnown('invoiceitem.read')).toBe(true);
+    expect(mixedCase.isKnown(' InvoiceItem.Read ')).toBe(true);
+    expect(mixedCase.isKnown('invoiceitem.*')).toBe(true);
+    expect(mixedCase.getEntry('invoiceitem.read')!.permission).toBe('invoiceItem.read');
+    expect(mixedCase.suggest('invoiceitem.raed')).toBe('invoiceItem.read');
+    expect(new PermissionCatalog({ invoiceItem: { actions: { read: 'Read' } } }).isKnown('invoiceitem.read')).toBe(false);
+  });
+
+  it('should honor a custom separator', () => {
+    const colonCatalog = new PermissionCatalog(definition, ':');
+    expect(colonCatalog.isKnown('user:read')).toBe(true);
+    expect(colonCatalog.isKnown('user:*')).toBe(true);
+    expect(colonCatalog.isKnown('user.read')).toBe(false);
+  });
+});
+
+describe('Typed catalog permissions', () => {
+  const catalog = defineCatalog({
+    invoice: { actions: { read: 'Read invoices', export: 'Export invoices' } },
+    user: { actions: { read: 'Read users' } }
+  });
+
+  const connector = {
+    getUserAssignment: jest.fn().mockResolvedValue({
+      userId: 'user-123',
+      roleIds: [],
+      groupIds: [],
+      directPermissions: [{ permission: 'invoice.*' }]
+    })
+  } as any;
+
+  it('should derive permission strings and patterns from the catalog', () => {
+    const permissions: CatalogPermission<typeof catalog>[] = ['invoice.read', 'invoice.export', 'user.read'];
+    const patterns: CatalogPermissionPattern<typeof catalog>[] = ['invoice.*', '*.read', '*', 'user.read'];
+
+    // @ts-expect-error - typo in the action
+    permissions.push('invoice.reed');
+    // @ts-expect-error - unknown resource
+    patterns.push('billing.*');
+
+    expect(permissions).toHaveLength(4);
+    expect(patterns).toHaveLength(5);
+  });
+
+  it('should type hasPermission on gatekeepers created with a catalog', async () => {
+    const rbac = createGatekeeper({ connector, catalog });
+
+    expect((await rbac.hasPermission('user-123', 'invoice.export')).allowed).toBe(true);
+    // @ts-expect-error - typo in the action
+    expect((await rbac.hasPermission('user-123', 'invoice.reed')).allowed).toBe(true);
+
+    const action: string = 'read';
+    expect((await rbac.hasPermission('user-123', uncheckedPermission(`user.${action}`))).allowed).toBe(false);
+  });
+
+  it('should use the configured separator in permission types', async () => {
+    const rbac = createGatekeeper({ connector, catalog, permissionSeparator: ':' });
+
+    await expect(rbac.hasPermission('user-123', 'invoice:read')).resolves.toHaveProperty('allowed');
+    // @ts-expect-error - wrong separator
+    await expect(rbac.hasPermission('user-123', 'invoice.read')).resolves.toHaveProperty('allowed');
+  });
+
+  it('should accept any string without a catalog', async () => {
+    const rbac = createGatekeeper({ connector });
+    const permission: string = 'anything.goes';
+
+    expect((await rbac.hasPermission('user-123', permission)).allowed).toBe(false);
+  });
+});
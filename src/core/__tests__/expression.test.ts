@@ -0,0 +1,120 @@
+import { parseExpression, evaluateExpression, builtinExpressionFunctions } from '../expression';
+
+describe('Expressions', () => {
+  const variables = {
+    userId: 'user-123',
+    resource: { name: 'projects/alpha/docs/42', ownerId: 'user-123', tags: ['beta', 'internal'] },
+    request: { time: new Date('2026-06-15T12:00:00Z') },
+    attributes: { level: 5, department: 'engineering', scores: [1, 2, 3] }
+  };
+
+  const run = (source: string) => evaluateExpression(parseExpression(source), variables);
+
+  describe('parseExpression', () => {
+    it('should parse member access and method calls', () => {
+      expect(parseExpression('resource.name.startsWith("projects/")')).toEqual({
+        type: 'call',
+        callee: 'startsWith',
+        target: {
+          type: 'member',
+          object: { type: 'identifier', name: 'resource' },
+          property: 'name'
+        },
+        args: [{ type: 'literal', value: 'projects/' }]
+      });
+    });
+
+    it('should respect operator precedence', () => {
+      const ast = parseExpression('a || b && c');
+      expect(ast).toMatchObject({
+        type: 'binary',
+        operator: '||',
+        right: { type: 'binary', operator: '&&' }
+      });
+    });
+
+    it('should report syntax errors with a position', () => {
+      expect(() => parseExpression('resource.name ==')).toThrow('Invalid expression at position 16');
+      expect(() => parseExpression('resource.name.startsWith("x"')).toThrow('expected ")"');
+      expect(() => parseExpression('"unterminated')).toThrow('unterminated string literal');
+      expect(() => parseExpression('a # b')).toThrow('unexpected character "#"');
+      expect(() => parseExpression('a b')).toThrow('unexpected "b"');
+    });
+
+    it('should reject chained relations', () => {
+      expect(() => parseExpression('1 < 2 < 3')).toThrow('unexpected "<"');
+    });
+
+    it('should reject empty expressions', () => {
+      expect(() => parseExpression('   ')).toThrow('non-empty string');
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    it('should evaluate string methods', () => {
+      expect(run('resource.name.startsWith("projects/alpha")')).toBe(true);
+      expect(run('resource.name.endsWith("/42")')).toBe(true);
+      expect(run('resource.name.contains("beta")')).toBe(false);
+      expect(run('resource.name.matches("^projects/[a-z]+/docs/\\\\d+$")')).toBe(true);
+    });
+
+    it('should compare timestamps', () => {
+      expect(run('request.time < timestamp("2026-12-31T00:00:00Z")')).toBe(true);
+      expect(run('request.time > timestamp("2026-12-31T00:00:00Z")')).toBe(false);
+      expect(run('request.time - duration("1h") < timestamp("2026-06-15T11:30:00Z")')).toBe(true);
+      expect(run('request.time + duration("1h30m") == timestamp("2026-06-15T13:30:00Z")')).toBe(true);
+    });
+
+    it('should evaluate the IAM example expression', () => {
+      expect(run(
+        'resource.name.startsWith("projects/alpha") && request.time < timestamp("2026-12-31T00:00:00Z")'
+      )).toBe(true);
+    });
+
+    it('should evaluate comparisons, arithmetic and membership', () => {
+      expect(run('attributes.level >= 5 && attributes.level * 2 == 10')).toBe(true);
+      expect(run('attributes.department in ["engineering", "design"]')).toBe(true);
+      expect(run('"beta" in resource.tags')).toBe(true);
+      expect(run('"ownerId" in resource')).toBe(true);
+      expect(run('resource.ownerId == userId')).toBe(true);
+      expect(run('size(attributes.scores) == 3 && attributes.scores[1] == 2')).toBe(true);
+      expect(run('resource["ownerId"] != "user-456"')).toBe(true);
+      expect(run('-attributes.level + 10 == 5 && 7 % 4 == 3 && 10 / 4 == 2.5')).toBe(true);
+    });
+
+    it('should evaluate negation and conditionals', () => {
+      expect(run('!(attributes.level < 3)')).toBe(true);
+      expect(run('attributes.level > 3 ? "senior" : "junior"')).toBe('senior');
+    });
+
+    it('should throw on missing fields and type errors', () => {
+      expect(() => run('resource.missing == "x"')).toThrow('No such field: missing');
+      expect(() => run('unknownVariable')).toThrow('Unknown variable');
+      expect(() => run('attributes.level < "5"')).toThrow('not comparable');
+      expect(() => run('!attributes.level')).toThrow('Expected a boolean');
+      expect(() => run('unknownFunction(1)')).toThrow('Unknown function');
+      expect(() => run('attributes.level / 0')).toThrow('Division by zero');
+    });
+
+    it('should absorb errors when the other side of && or || decides', () => {
+      expect(run('resource.missing == "x" || userId == "user-123"')).toBe(true);
+      expect(run('resource.missing == "x" && userId == "user-456"')).toBe(false);
+      expect(() => run('resource.missing == "x" || userId == "user-456"')).toThrow('No such field');
+    });
+
+    it('should not expose prototype members', () => {
+      expect(() => run('resource.constructor')).toThrow('No such field');
+      expect(() => run('toString')).toThrow('Unknown variable');
+      expect(() => run('constructor(1)')).toThrow('Unknown function');
+    });
+
+    it('should accept custom functions', () => {
+      const ast = parseExpression('tierAtLeast(attributes.level, 3)');
+      const functions = {
+        ...builtinExpressionFunctions,
+        tierAtLeast: (level: number, minimum: number) => level >= minimum
+      };
+      expect(evaluateExpression(ast, variables, functions)).toBe(true);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { PermissionEngine } from '../permission-engine';
-import { RBACConfig, PermissionContext, ConditionalPermission } from '../types';
+import { defaultActionHierarchy, getImplyingActions } from '../actions';
+import { RBACConfig, PermissionContext, ConditionalPermission, PermissionCondition } from '../types';
 
 describe('PermissionEngine', () => {
   let engine: PermissionEngine;
@@ -64,6 +65,37 @@ describe('PermissionEngine', () => {
       expect(engine.matchesPermission('users.jane.write', 'users.*.read')).toBe(false);
     });
 
+    it('should match zero or more segments with **', () => {
+      expect(engine.matchesPermission('reports.read', 'reports.**')).toBe(true);
+      expect(engine.matchesPermission('reports.finance.q3.read', 'reports.**')).toBe(true);
+      expect(engine.matchesPermission('reports', 'reports.**')).toBe(true);
+      expect(engine.matchesPermission('reports.finance.q3.read', 'reports.**.read')).toBe(true);
+      expect(engine.matchesPermission('reports.read', 'reports.**.read')).toBe(true);
+      expect(engine.matchesPermission('reports.finance.write', 'reports.**.read')).toBe(false);
+      expect(engine.matchesPermission('invoices.read', 'reports.**')).toBe(false);
+    });
+
+    it('should match segment prefixes and suffixes', () => {
+      expect(engine.matchesPermission('reports.q3', 'reports.q*')).toBe(true);
+      expect(engine.matchesPermission('reports.q', 'reports.q*')).toBe(true);
+      expect(engine.matchesPermission('reports.annual', 'reports.q*')).toBe(false);
+      expect(engine.matchesPermission('reports.q3.read', 'reports.q*')).toBe(false);
+      expect(engine.matchesPermission('teams.backend-admin', 'teams.*-admin')).toBe(true);
+      expect(engine.matchesPermission('teams.admin', 'teams.*-admin')).toBe(false);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(engine.matchesPermission('users.read', 'users.(read|write)')).toBe(false);
+      expect(engine.matchesPermission('usersXread', 'users.*')).toBe(false);
+    });
+
+    it('should honor the configured separator', () => {
+      const colonEngine = new PermissionEngine({ connector: mockConnector, permissionSeparator: ':' });
+      expect(colonEngine.matchesPermission('users:read', 'users:*')).toBe(true);
+      expect(colonEngine.matchesPermission('users:admin:read', 'users:**')).toBe(true);
+      expect(colonEngine.matchesPermission('users:admin:read', 'users:*')).toBe(false);
+    });
+
     it('should not match wildcards when disabled', () => {
       const configNoWildcard: RBACConfig = {
         connector: mockConnector,
@@ -212,13 +244,15 @@ describe('PermissionEngine', () => {
       expect(engine.evaluateConditions(condition, context)).toBe(false);
     });
 
-    it('should handle invalid operators', () => {
+    it('should reject unknown operators', () => {
       const condition = [{
         attribute: 'attributes.department',
         operator: 'invalid' as any,
         value: 'test'
       }];
-      expect(engine.evaluateConditions(condition, context)).toBe(false);
+      expect(() => engine.evaluateConditions(condition, context)).toThrow(
+        'Unknown condition operator: invalid'
+      );
     });
 
     it('should handle type mismatches for string operations', () => {
@@ -240,6 +274,489 @@ describe('PermissionEngine', () => {
     });
   });
 
+  describe('extended operators', () => {
+    const context: PermissionContext = {
+      userId: 'user-123',
+      timestamp: new Date('2026-06-15T12:00:00Z'),
+      attributes: {
+        email: 'alice@acme.com',
+        score: 85,
+        expiresAt: '2026-07-01T00:00:00Z',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        ip: '10.1.2.3',
+        ipv6: '2001:db8::1',
+        mappedIp: '::ffff:192.168.1.20',
+        tags: ['beta', 'staff'],
+        scores: [1, 2, 3],
+        empty: ''
+      }
+    };
+
+    const check = (condition: PermissionCondition) => engine.evaluateConditions([condition], context);
+
+    it('should evaluate matches', () => {
+      expect(check({ attribute: 'attributes.email', operator: 'matches', value: '@acme\\.com$' })).toBe(true);
+      expect(check({ attribute: 'attributes.email', operator: 'matches', value: '^bob@' })).toBe(false);
+      expect(check({ attribute: 'attributes.score', operator: 'matches', value: '85' })).toBe(false);
+    });
+
+    it('should treat invalid regular expressions as non-matching', () => {
+      expect(check({ attribute: 'attributes.email', operator: 'matches', value: '(' })).toBe(false);
+    });
+
+    it('should evaluate between for numbers', () => {
+      expect(check({ attribute: 'attributes.score', operator: 'between', value: [80, 90] })).toBe(true);
+      expect(check({ attribute: 'attributes.score', operator: 'between', value: [85, 85] })).toBe(true);
+      expect(check({ attribute: 'attributes.score', operator: 'between', value: [86, 90] })).toBe(false);
+    });
+
+    it('should evaluate between for dates', () => {
+      expect(check({ attribute: 'timestamp', operator: 'between', value: ['2026-06-01', '2026-07-01'] })).toBe(true);
+      expect(check({ attribute: 'attributes.expiresAt', operator: 'between', value: [new Date('2026-01-01'), '2026-06-30'] })).toBe(false);
+      expect(check({ attribute: 'attributes.email', operator: 'between', value: ['2026-01-01', '2026-12-31'] })).toBe(false);
+    });
+
+    it('should evaluate exists and notExists', () => {
+      expect(check({ attribute: 'attributes.email', operator: 'exists' })).toBe(true);
+      expect(check({ attribute: 'attributes.empty', operator: 'exists' })).toBe(true);
+      expect(check({ attribute: 'attributes.missing', operator: 'exists' })).toBe(false);
+      expect(check({ attribute: 'attributes.missing', operator: 'notExists' })).toBe(true);
+      expect(check({ attribute: 'attributes.email', operator: 'notExists' })).toBe(false);
+    });
+
+    it('should evaluate before and after for Date attributes', () => {
+      expect(check({ attribute: 'timestamp', operator: 'before', value: '2026-12-31T00:00:00Z' })).toBe(true);
+      expect(check({ attribute: 'timestamp', operator: 'after', value: new Date('2026-12-31') })).toBe(false);
+      expect(check({ attribute: 'attributes.createdAt', operator: 'after', value: Date.parse('2025-12-31') })).toBe(true);
+    });
+
+    it('should evaluate before and after for ISO string attributes', () => {
+      expect(check({ attribute: 'attributes.expiresAt', operator: 'after', value: '2026-06-15T12:00:00Z' })).toBe(true);
+      expect(check({ attribute: 'attributes.expiresAt', operator: 'before', value: '2026-06-15T12:00:00Z' })).toBe(false);
+      expect(check({ attribute: 'attributes.email', operator: 'before', value: '2026-06-15T12:00:00Z' })).toBe(false);
+    });
+
+    it('should compare Date attributes with greaterThan and lessThan', () => {
+      expect(check({ attribute: 'timestamp', operator: 'greaterThan', value: Date.parse('2026-01-01') })).toBe(true);
+      expect(check({ attribute: 'timestamp', operator: 'lessThan', value: '2026-01-01' })).toBe(false);
+    });
+
+    it('should evaluate ipInCidr for IPv4', () => {
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '10.0.0.0/8' })).toBe(true);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '10.1.2.0/24' })).toBe(true);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '10.1.3.0/24' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '10.1.2.3' })).toBe(true);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: ['192.168.0.0/16', '10.0.0.0/12'] })).toBe(true);
+    });
+
+    it('should evaluate ipInCidr for IPv6 and mapped addresses', () => {
+      expect(check({ attribute: 'attributes.ipv6', operator: 'ipInCidr', value: '2001:db8::/32' })).toBe(true);
+      expect(check({ attribute: 'attributes.ipv6', operator: 'ipInCidr', value: '2001:db9::/32' })).toBe(false);
+      expect(check({ attribute: 'attributes.ipv6', operator: 'ipInCidr', value: '10.0.0.0/8' })).toBe(false);
+      expect(check({ attribute: 'attributes.mappedIp', operator: 'ipInCidr', value: '192.168.1.0/24' })).toBe(true);
+    });
+
+    it('should reject malformed addresses and ranges', () => {
+      expect(check({ attribute: 'attributes.email', operator: 'ipInCidr', value: '10.0.0.0/8' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '10.0.0.0/40' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '300.0.0.0/8' })).toBe(false);
+      expect(check({ attribute: 'attributes.ipv6', operator: 'ipInCidr', value: '2001:db8::1::/32' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '0.0.0.0/' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '0.0.0.0/ ' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '0.0.0.0/0x0' })).toBe(false);
+      expect(check({ attribute: 'attributes.ip', operator: 'ipInCidr', value: '0.0.0.0/0' })).toBe(true);
+    });
+
+    it('should evaluate arrayContains', () => {
+      expect(check({ attribute: 'attributes.tags', operator: 'arrayContains', value: 'beta' })).toBe(true);
+      expect(check({ attribute: 'attributes.tags', operator: 'arrayContains', value: 'admin' })).toBe(false);
+      expect(check({ attribute: 'attributes.scores', operator: 'arrayContains', value: 2 })).toBe(true);
+      expect(check({ attribute: 'attributes.email', operator: 'arrayContains', value: 'alice' })).toBe(false);
+    });
+
+    it('should evaluate arrayIntersects', () => {
+      expect(check({ attribute: 'attributes.tags', operator: 'arrayIntersects', value: ['admin', 'staff'] })).toBe(true);
+      expect(check({ attribute: 'attributes.tags', operator: 'arrayIntersects', value: ['admin'] })).toBe(false);
+      expect(check({ attribute: 'attributes.email', operator: 'arrayIntersects', value: ['alice'] })).toBe(false);
+    });
+  });
+
+  describe('schedule conditions', () => {
+    // Wednesday 2026-03-11 08:30 UTC is 09:30 in Berlin (CET, UTC+1)
+    const at = (iso: string): PermissionContext => ({ userId: 'user-123', timestamp: new Date(iso) });
+
+    const businessHoursBerlin: PermissionCondition = {
+      attribute: 'timestamp',
+      operator: 'withinSchedule',
+      value: {
+        timeZone: 'Europe/Berlin',
+        days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+        startTime: '09:00',
+        endTime: '17:00'
+      }
+    };
+
+    it('should match inside business hours in the given time zone', () => {
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-03-11T08:30:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-03-11T15:59:00Z'))).toBe(true);
+    });
+
+    it('should not match outside business hours', () => {
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-03-11T07:30:00Z'))).toBe(false);
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-03-11T16:00:00Z'))).toBe(false);
+    });
+
+    it('should respect daylight saving time', () => {
+      // 2026-07-15 is a Wednesday; Berlin is UTC+2 (CEST)
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-07-15T07:30:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-07-15T15:30:00Z'))).toBe(false);
+    });
+
+    it('should use the local day of week', () => {
+      // Saturday 2026-03-14 in Berlin
+      expect(engine.evaluateConditions([businessHoursBerlin], at('2026-03-14T10:00:00Z'))).toBe(false);
+      // Friday 23:30 UTC is already Saturday in Tokyo
+      const tokyoWeekend: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: { timeZone: 'Asia/Tokyo', days: ['sat', 'sun'] }
+      };
+      expect(engine.evaluateConditions([tokyoWeekend], at('2026-03-13T23:30:00Z'))).toBe(true);
+    });
+
+    it('should support windows that wrap past midnight', () => {
+      const nightShift: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: { startTime: '22:00', endTime: '06:00' }
+      };
+      expect(engine.evaluateConditions([nightShift], at('2026-03-11T23:00:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([nightShift], at('2026-03-11T05:59:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([nightShift], at('2026-03-11T12:00:00Z'))).toBe(false);
+    });
+
+    it('should check the start day of overnight windows', () => {
+      // 2026-03-13 is a Friday
+      const fridayNight: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: { days: ['fri'], startTime: '22:00', endTime: '02:00' }
+      };
+      expect(engine.evaluateConditions([fridayNight], at('2026-03-13T23:00:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([fridayNight], at('2026-03-14T01:00:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([fridayNight], at('2026-03-13T01:00:00Z'))).toBe(false);
+      expect(engine.evaluateConditions([fridayNight], at('2026-03-15T01:00:00Z'))).toBe(false);
+
+      const sundayNight: PermissionCondition = { ...fridayNight, value: { days: ['sun'], startTime: '22:00', endTime: '02:00' } };
+      expect(engine.evaluateConditions([sundayNight], at('2026-03-16T01:00:00Z'))).toBe(true);
+    });
+
+    it('should support date ranges', () => {
+      const q1: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: { from: '2026-01-01T00:00:00Z', until: '2026-04-01T00:00:00Z' }
+      };
+      expect(engine.evaluateConditions([q1], at('2026-03-31T23:59:59Z'))).toBe(true);
+      expect(engine.evaluateConditions([q1], at('2026-04-01T00:00:00Z'))).toBe(false);
+      expect(engine.evaluateConditions([q1], at('2025-12-31T23:59:59Z'))).toBe(false);
+    });
+
+    it('should match when any of several windows matches', () => {
+      const split: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: [
+          { startTime: '08:00', endTime: '12:00' },
+          { startTime: '13:00', endTime: '17:00' }
+        ]
+      };
+      expect(engine.evaluateConditions([split], at('2026-03-11T09:00:00Z'))).toBe(true);
+      expect(engine.evaluateConditions([split], at('2026-03-11T12:30:00Z'))).toBe(false);
+      expect(engine.evaluateConditions([split], at('2026-03-11T13:00:00Z'))).toBe(true);
+    });
+
+    it('should not match invalid time zones or clock times', () => {
+      const badZone: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: { timeZone: 'Mars/Olympus_Mons' }
+      };
+      const badClock: PermissionCondition = {
+        attribute: 'timestamp',
+        operator: 'withinSchedule',
+        value: { startTime: '9am' }
+      };
+      expect(engine.evaluateConditions([badZone], at('2026-03-11T09:00:00Z'))).toBe(false);
+      expect(engine.evaluateConditions([badClock], at('2026-03-11T09:00:00Z'))).toBe(false);
+    });
+
+    it('should not match without a timestamp', () => {
+      expect(engine.evaluateConditions([businessHoursBerlin], { userId: 'user-123' })).toBe(false);
+    });
+  });
+
+  describe('attribute references', () => {
+    const context: PermissionContext = {
+      userId: 'user-123',
+      attributes: {
+        subject: { department: 'engineering', clearance: 3 },
+        resource: { ownerId: 'user-123', department: 'engineering', requiredClearance: 2, tags: ['beta'] },
+        other: { department: 'sales' }
+      }
+    };
+
+    const check = (condition: PermissionCondition) => engine.evaluateConditions([condition], context);
+
+    it('should compare an attribute against userId', () => {
+      expect(check({ attribute: 'attributes.resource.ownerId', operator: 'equals', valueFrom: 'userId' })).toBe(true);
+      expect(engine.evaluateConditions(
+        [{ attribute: 'attributes.resource.ownerId', operator: 'equals', valueFrom: 'userId' }],
+        { ...context, userId: 'user-456' }
+      )).toBe(false);
+    });
+
+    it('should compare two context attributes', () => {
+      expect(check({
+        attribute: 'attributes.subject.department',
+        operator: 'equals',
+        valueFrom: 'attributes.resource.department'
+      })).toBe(true);
+      expect(check({
+        attribute: 'attributes.subject.department',
+        operator: 'equals',
+        valueFrom: 'attributes.other.department'
+      })).toBe(false);
+    });
+
+    it('should apply any operator to referenced values', () => {
+      expect(check({
+        attribute: 'attributes.subject.clearance',
+        operator: 'greaterThan',
+        valueFrom: 'attributes.resource.requiredClearance'
+      })).toBe(true);
+      expect(check({
+        attribute: 'attributes.resource.tags',
+        operator: 'arrayContains',
+        valueFrom: 'attributes.missingTag'
+      })).toBe(false);
+    });
+
+    it('should not match when the referenced attribute is missing', () => {
+      expect(check({ attribute: 'attributes.resource.ownerId', operator: 'notEquals', valueFrom: 'attributes.missing' })).toBe(false);
+    });
+
+    it('should take precedence over placeholder resolution', () => {
+      const condition = {
+        attribute: 'attributes.resource.ownerId',
+        operator: 'equals',
+        valueFrom: 'userId',
+        value: '${attributes.missing}'
+      } as unknown as PermissionCondition;
+      expect(check(condition)).toBe(true);
+    });
+  });
+
+  describe('condition trees', () => {
+    const context: PermissionContext = {
+      userId: 'user-123',
+      attributes: {
+        ownerId: 'user-456',
+        department: 'engineering',
+        resourceDepartment: 'engineering',
+        level: 5
+      }
+    };
+
+    const isOwner = { attribute: 'attributes.ownerId', operator: 'equals' as const, value: '${userId}' };
+    const sameDepartment = { attribute: 'attributes.department', operator: 'equals' as const, value: '${attributes.resourceDepartment}' };
+    const isSenior = { attribute: 'attributes.level', operator: 'greaterThan' as const, value: 3 };
+
+    it('should evaluate anyOf nodes', () => {
+      expect(engine.evaluateConditions([{ anyOf: [isOwner, isSenior] }], context)).toBe(true);
+      expect(engine.evaluateConditions([{ anyOf: [isOwner] }], context)).toBe(false);
+    });
+
+    it('should evaluate allOf nodes', () => {
+      expect(engine.evaluateConditions([{ allOf: [sameDepartment, isSenior] }], context)).toBe(true);
+      expect(engine.evaluateConditions([{ allOf: [sameDepartment, isOwner] }], context)).toBe(false);
+    });
+
+    it('should evaluate not nodes', () => {
+      expect(engine.evaluateConditions([{ not: isOwner }], context)).toBe(true);
+      expect(engine.evaluateConditions([{ not: isSenior }], context)).toBe(false);
+    });
+
+    it('should express owner OR (same department AND senior)', () => {
+      const rule = [{ anyOf: [isOwner, { allOf: [sameDepartment, isSenior] }] }];
+
+      expect(engine.evaluateConditions(rule, context)).toBe(true);
+      expect(engine.evaluateConditions(rule, {
+        ...context,
+        attributes: { ...context.attributes, level: 1 }
+      })).toBe(false);
+      expect(engine.evaluateConditions(rule, {
+        ...context,
+        userId: 'user-456',
+        attributes: { ...context.attributes, level: 1 }
+      })).toBe(true);
+    });
+
+    it('should treat flat arrays as an implicit allOf', () => {
+      expect(engine.evaluateConditions([sameDepartment, isSenior], context)).toBe(true);
+      expect(engine.evaluateConditions([sameDepartment, { anyOf: [isOwner] }], context)).toBe(false);
+    });
+
+    it('should apply condition trees in evaluatePermissions', () => {
+      const permissions: ConditionalPermission[] = [
+        { permission: 'documents.update', conditions: [{ anyOf: [isOwner, { allOf: [sameDepartment, isSenior] }] }] }
+      ];
+
+      expect(engine.evaluatePermissions('documents.update', permissions, context).allowed).toBe(true);
+    });
+  });
+
+  describe('placeholder resolution', () => {
+    const context: PermissionContext = {
+      userId: 'user-123',
+      attributes: {
+        ownerId: 'user-123',
+        path: 'users/user-123/profile',
+        department: 'engineering',
+        departments: ['engineering', 'design']
+      }
+    };
+
+    it('should resolve ${userId} before comparing', () => {
+      const condition = [{
+        attribute: 'attributes.ownerId',
+        operator: 'equals' as const,
+        value: '${userId}'
+      }];
+      expect(engine.evaluateConditions(condition, context)).toBe(true);
+      expect(engine.evaluateConditions(condition, { ...context, userId: 'user-456' })).toBe(false);
+    });
+
+    it('should resolve attribute placeholders', () => {
+      const condition = [{
+        attribute: 'attributes.department',
+        operator: 'equals' as const,
+        value: '${attributes.department}'
+      }];
+      expect(engine.evaluateConditions(condition, context)).toBe(true);
+    });
+
+    it('should interpolate placeholders embedded in strings', () => {
+      const condition = [{
+        attribute: 'attributes.path',
+        operator: 'startsWith' as const,
+        value: 'users/${userId}/'
+      }];
+      expect(engine.evaluateConditions(condition, context)).toBe(true);
+    });
+
+    it('should resolve placeholders inside array values', () => {
+      const condition = [{
+        attribute: 'attributes.ownerId',
+        operator: 'in' as const,
+        value: ['admin', '${userId}']
+      }];
+      expect(engine.evaluateConditions(condition, context)).toBe(true);
+    });
+
+    it('should interpolate timestamps as ISO strings', () => {
+      const timestamp = new Date('2026-01-15T10:00:00.000Z');
+      const condition = [{
+        attribute: 'attributes.stamp',
+        operator: 'equals' as const,
+        value: 'at-${timestamp}'
+      }];
+      const stampedContext = {
+        ...context,
+        timestamp,
+        attributes: { stamp: 'at-2026-01-15T10:00:00.000Z' }
+      };
+      expect(engine.evaluateConditions(condition, stampedContext)).toBe(true);
+    });
+
+    it('should deny when a placeholder cannot be resolved', () => {
+      const condition = [{
+        attribute: 'attributes.ownerId',
+        operator: 'notEquals' as const,
+        value: '${attributes.missing}'
+      }];
+      expect(engine.evaluateConditions(condition, context)).toBe(false);
+    });
+
+    it('should not invert an unresolved placeholder under not', () => {
+      const condition = [{
+        not: { attribute: 'attributes.ownerId', operator: 'equals' as const, value: '${attributes.missing}' }
+      }];
+      expect(engine.evaluateConditions(condition, context)).toBe(false);
+      expect(engine.evaluateConditions([{ anyOf: [...condition, { attribute: 'attributes.department', operator: 'equals' as const, value: 'engineering' }] }], context)).toBe(true);
+    });
+
+    it('should still apply deny rules with an unresolved placeholder', () => {
+      const permissions: ConditionalPermission[] = [
+        { permission: 'documents.read' },
+        {
+          permission: 'documents.read',
+          effect: 'deny',
+          conditions: [{ attribute: 'attributes.ownerId', operator: 'notEquals', value: '${attributes.owner}' }]
+        }
+      ];
+
+      const result = engine.evaluatePermissions('documents.read', permissions, context);
+      expect(result.allowed).toBe(false);
+      expect(result.deniedBy).toEqual([permissions[1]]);
+
+      const explained = engine.evaluatePermissions('documents.read', permissions, context, { explain: true });
+      expect(explained.allowed).toBe(false);
+      expect(explained.trace!.candidates[1]).toMatchObject({
+        applicable: true,
+        conditions: [{ type: 'condition', outcome: false, indeterminate: true }]
+      });
+
+      const resolved = { ...context, attributes: { ...context.attributes, owner: 'user-123' } };
+      expect(engine.evaluatePermissions('documents.read', permissions, resolved).allowed).toBe(true);
+    });
+
+    it('should treat conditions on unresolved attributes as indeterminate', () => {
+      const permissions: ConditionalPermission[] = [
+        { permission: 'documents.edit', conditions: [{ attribute: 'attributes.resource.locked', operator: 'equals', value: false }] },
+        { permission: 'documents.edit', effect: 'deny', conditions: [{ attribute: 'attributes.resource.locked', operator: 'exists' }] }
+      ];
+      const unresolved = { ...context, unresolvedAttributes: ['attributes.resource'] };
+
+      const result = engine.evaluatePermissions('documents.edit', permissions, unresolved);
+      expect(result.allowed).toBe(false);
+      expect(result.deniedBy).toEqual([permissions[1]]);
+      expect(engine.evaluatePermissions('documents.edit', permissions.slice(0, 1), unresolved).allowed).toBe(false);
+    });
+
+    it('should not compare unresolved placeholders as literal text', () => {
+      const condition = [{
+        attribute: 'attributes.literal',
+        operator: 'equals' as const,
+        value: '${attributes.missing}'
+      }];
+      const literalContext = { userId: 'user-123', attributes: { literal: '${attributes.missing}' } };
+      expect(engine.evaluateConditions(condition, literalContext)).toBe(false);
+    });
+
+    it('should throw on unresolved placeholders in strict mode', () => {
+      const strictEngine = new PermissionEngine({ connector: mockConnector, strictMode: true });
+      const condition = [{
+        attribute: 'attributes.ownerId',
+        operator: 'equals' as const,
+        value: '${attributes.missing}'
+      }];
+      expect(() => strictEngine.evaluateConditions(condition, context)).toThrow(
+        'Unresolved placeholder'
+      );
+    });
+  });
+
   describe('evaluatePermissions', () => {
     const context: PermissionContext = {
       userId: 'user-123',
@@ -324,11 +841,560 @@ describe('PermissionEngine', () => {
     });
   });
 
+  describe('combining algorithms', () => {
+    const context: PermissionContext = { userId: 'user-123' };
+    const withAlgorithm = (combiningAlgorithm: RBACConfig['combiningAlgorithm']) =>
+      new PermissionEngine({ connector: mockConnector, combiningAlgorithm });
+
+    const allowThenDeny: ConditionalPermission[] = [
+      { permission: 'reports.q3' },
+      { permission: 'reports.*', effect: 'deny' }
+    ];
+
+    it('should default to deny-overrides', () => {
+      const result = engine.evaluatePermissions('reports.q3', allowThenDeny, context);
+      expect(result.allowed).toBe(false);
+      expect(result.deniedBy).toEqual([allowThenDeny[1]]);
+      expect(result.reason).toBe('Access denied by explicit deny rule: reports.*');
+    });
+
+    it('should let any allow win with permit-overrides', () => {
+      const permitOverrides = withAlgorithm('permit-overrides');
+
+      const allowed = permitOverrides.evaluatePermissions('reports.q3', allowThenDeny, context);
+      expect(allowed.allowed).toBe(true);
+      expect(allowed.deniedBy).toBeUndefined();
+      expect(allowed.reason).toBe('Access granted by permission: reports.q3');
+
+      const denied = permitOverrides.evaluatePermissions('reports.q4', allowThenDeny, context);
+      expect(denied.allowed).toBe(false);
+      expect(denied.deniedBy).toEqual([allowThenDeny[1]]);
+    });
+
+    it('should let the first applicable permission decide with first-applicable', () => {
+      const firstApplicable = withAlgorithm('first-applicable');
+
+      expect(firstApplicable.evaluatePermissions('reports.q3', allowThenDeny, context).allowed).toBe(true);
+      expect(firstApplicable.evaluatePermissions(
+        'reports.q3',
+        [...allowThenDeny].reverse(),
+        context
+      ).allowed).toBe(false);
+    });
+
+    it('should skip permissions whose conditions fail with first-applicable', () => {
+      const result = withAlgorithm('first-applicable').evaluatePermissions('reports.q3', [
+        {
+          permission: 'reports.q3',
+          effect: 'deny',
+          conditions: [{ attribute: 'attributes.region', operator: 'equals', value: 'eu' }]
+        },
+        { permission: 'reports.*' }
+      ], context);
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedPermissions).toHaveLength(1);
+    });
+
+    it('should let the highest priority decide with priority', () => {
+      const priority = withAlgorithm('priority');
+      const permissions: ConditionalPermission[] = [
+        { permission: 'reports.*', effect: 'deny' },
+        { permission: 'reports.q3', priority: 10 }
+      ];
+
+      const q3 = priority.evaluatePermissions('reports.q3', permissions, context);
+      expect(q3.allowed).toBe(true);
+      expect(q3.reason).toBe('Access granted by permission: reports.q3');
+      expect(priority.evaluatePermissions('reports.q4', permissions, context).allowed).toBe(false);
+    });
+
+    it('should apply deny-overrides among equal priorities', () => {
+      const result = withAlgorithm('priority').evaluatePermissions('reports.q3', [
+        { permission: 'reports.q3', priority: 5 },
+        { permission: 'reports.*', effect: 'deny', priority: 5 },
+        { permission: '*.q3', priority: 1 }
+      ], context);
+
+      expect(result.allowed).toBe(false);
+      expect(result.deniedBy).toHaveLength(1);
+    });
+
+    it('should reject unknown algorithms and invalid priorities', () => {
+      expect(() => withAlgorithm('allow-all' as any)).toThrow('Unknown combining algorithm: allow-all');
+      expect(() => engine.validatePermissions([{ permission: 'reports.q3', priority: NaN }]))
+        .toThrow('Invalid priority for permission reports.q3');
+    });
+  });
+
+  describe('explain', () => {
+    const context: PermissionContext = {
+      userId: 'user-123',
+      attributes: { department: 'engineering', level: 3, resource: { ownerId: 'user-456' } }
+    };
+
+    it('should record resolved values and outcomes of condition trees', () => {
+      const permission: ConditionalPermission = {
+        permission: 'documents.edit',
+        conditions: [{
+          anyOf: [
+            { attribute: 'attributes.resource.ownerId', operator: 'equals', value: '${userId}' },
+            {
+              allOf: [
+                { attribute: 'attributes.department', operator: 'equals', value: 'engineering' },
+                { not: { attribute: 'attributes.level', operator: 'lessThan', value: 5 } }
+              ]
+            }
+          ]
+        }]
+      };
+
+      const result = engine.evaluatePermissions('documents.edit', [permission], context, { explain: true });
+
+      expect(result.allowed).toBe(false);
+      expect(result.trace!.candidates[0].conditions).toEqual([{
+        type: 'anyOf',
+        outcome: false,
+        children: [
+          {
+            type: 'condition',
+            condition: (permission.conditions![0] as any).anyOf[0],
+            left: 'user-456',
+            right: 'user-123',
+            outcome: false
+          },
+          {
+            type: 'allOf',
+            outcome: false,
+            children: [
+              expect.objectContaining({ left: 'engineering', right: 'engineering', outcome: true }),
+              {
+                type: 'not',
+                outcome: false,
+                child: expect.objectContaining({ left: 3, right: 5, outcome: true })
+              }
+            ]
+          }
+        ]
+      }]);
+    });
+
+    it('should record expression outcomes and errors', () => {
+      const result = engine.evaluatePermissions('documents.edit', [
+        { permission: 'documents.edit', expression: 'resource.locked == false' },
+        { permission: 'documents.edit', expression: 'attributes.level >= 3' }
+      ], context, { explain: true });
+
+      const [failing, passing] = result.trace!.candidates;
+      expect(failing.expression).toEqual({
+        expression: 'resource.locked == false',
+        outcome: false,
+        indeterminate: true,
+        error: 'No such field: locked'
+      });
+      expect(passing.expression).toEqual({ expression: 'attributes.level >= 3', outcome: true });
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should still apply denies whose expression fails to evaluate', () => {
+      const permissions: ConditionalPermission[] = [
+        { permission: 'documents.read' },
+        { permission: 'documents.read', effect: 'deny', expression: 'resource.classified == true' }
+      ];
+
+      expect(engine.evaluatePermissions('documents.read', permissions, context).allowed).toBe(false);
+
+      const explained = engine.evaluatePermissions('documents.read', permissions, context, { explain: true });
+      expect(explained.allowed).toBe(false);
+      expect(explained.trace!.candidates[1]).toMatchObject({
+        applicable: true,
+        expression: { outcome: false, indeterminate: true, error: 'No such field: classified' }
+      });
+
+      const unclassified = { ...context, attributes: { ...context.attributes, resource: { classified: false } } };
+      expect(engine.evaluatePermissions('documents.read', permissions, unclassified).allowed).toBe(true);
+    });
+
+    it('should evaluate all candidates but mark those after the decision', () => {
+      const permissions: ConditionalPermission[] = [
+        { permission: 'documents.*', effect: 'deny' },
+        { permission: 'documents.edit' }
+      ];
+      const sources = [{ type: 'role' as const, id: 'auditor', chain: ['role:auditor'] }, { type: 'direct' as const, chain: [] }];
+
+      const result = engine.evaluatePermissions('documents.edit', permissions, context, { explain: true, sources });
+
+      expect(result.allowed).toBe(false);
+      expect(result.matchedPermissions).toEqual([permissions[0]]);
+      expect(result.trace!.candidates.map(c => [c.applicable, c.considered, c.source])).toEqual([
+        [true, true, sources[0]],
+        [true, false, sources[1]]
+      ]);
+      expect(result.trace!.decidedBy).toEqual([permissions[0]]);
+      expect(result.trace!.rule).toBe('deny-overrides: an applicable deny overrides any allow');
+    });
+  });
+
+  describe('custom operators and functions', () => {
+    const tiers = ['free', 'pro', 'enterprise'];
+    const tierAtLeast = {
+      evaluate: (tier: string, minimum: string) => tiers.indexOf(tier) >= tiers.indexOf(minimum),
+      validateValue: (value: unknown) => typeof value === 'string' && tiers.includes(value)
+    };
+
+    const customEngine = () => new PermissionEngine({
+      connector: mockConnector,
+      operators: { tierAtLeast },
+      functions: {
+        withinKm: (from: number[], to: number[], km: number) =>
+          Math.hypot(from[0] - to[0], from[1] - to[1]) * 111 <= km
+      }
+    });
+
+    const context: PermissionContext = {
+      userId: 'user-123',
+      attributes: { tier: 'pro', requiredTier: 'enterprise', location: [52.52, 13.40] }
+    };
+
+    it('should evaluate registered operators', () => {
+      const tierEngine = customEngine();
+      const condition = { attribute: 'attributes.tier', operator: 'tierAtLeast', value: 'pro' } as unknown as PermissionCondition;
+      const failing = { attribute: 'attributes.tier', operator: 'tierAtLeast', value: 'enterprise' } as unknown as PermissionCondition;
+
+      expect(tierEngine.evaluateConditions([condition], context)).toBe(true);
+      expect(tierEngine.evaluateConditions([failing], context)).toBe(false);
+    });
+
+    it('should pass referenced values and the context to registered operators', () => {
+      const evaluate = jest.fn().mockReturnValue(true);
+      const spyEngine = new PermissionEngine({ connector: mockConnector, operators: { spy: { evaluate } } });
+      const condition = { attribute: 'attributes.tier', operator: 'spy', valueFrom: 'attributes.requiredTier' } as unknown as PermissionCondition;
+
+      expect(spyEngine.evaluateConditions([condition], context)).toBe(true);
+      expect(evaluate).toHaveBeenCalledWith('pro', 'enterprise', context);
+    });
+
+    it('should not call registered operators for missing attributes', () => {
+      const evaluate = jest.fn().mockReturnValue(true);
+      const spyEngine = new PermissionEngine({ connector: mockConnector, operators: { spy: { evaluate } } });
+      const condition = { attribute: 'attributes.missing', operator: 'spy', value: 1 } as unknown as PermissionCondition;
+
+      expect(spyEngine.evaluateConditions([condition], context)).toBe(false);
+      expect(evaluate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to replace built-in operators and functions', () => {
+      expect(() => new PermissionEngine({ connector: mockConnector, operators: { equals: tierAtLeast } }))
+        .toThrow('built-in operator');
+      expect(() => new PermissionEngine({ connector: mockConnector, functions: { size: () => 0 } }))
+        .toThrow('built-in function');
+    });
+
+    it('should validate values of registered operators on write', () => {
+      const tierEngine = customEngine();
+      const valid = { attribute: 'attributes.tier', operator: 'tierAtLeast', value: 'pro' } as unknown as PermissionCondition;
+      const invalid = { attribute: 'attributes.tier', operator: 'tierAtLeast', value: 'platinum' } as unknown as PermissionCondition;
+
+      expect(() => tierEngine.validatePermissions([{ permission: 'reports.read', conditions: [valid] }])).not.toThrow();
+      expect(() => tierEngine.validatePermissions([
+        { permission: 'reports.read', conditions: [{ anyOf: [invalid] }] }
+      ])).toThrow('value "platinum" is not valid for operator tierAtLeast');
+    });
+
+    it('should reject unknown operators on write', () => {
+      const unknown = { attribute: 'attributes.tier', operator: 'tierAtMost', value: 'pro' } as unknown as PermissionCondition;
+
+      expect(() => customEngine().validatePermissions([
+        { permission: 'reports.read', conditions: [{ not: unknown }] }
+      ])).toThrow('Invalid condition for permission reports.read: Unknown condition operator: tierAtMost');
+    });
+
+    it('should expose registered functions to expressions', () => {
+      const geoEngine = customEngine();
+
+      expect(geoEngine.evaluateExpression('withinKm(attributes.location, [52.50, 13.40], 5)', context)).toBe(true);
+      expect(geoEngine.evaluateExpression('withinKm(attributes.location, [48.14, 11.58], 5)', context)).toBe(false);
+      expect(engine.evaluateExpression('withinKm(attributes.location, [52.50, 13.40], 5)', context)).toBe(false);
+    });
+  });
+
+  describe('expressions', () => {
+    const context: PermissionContext = {
+      userId: 'user-123',
+      resource: 'projects/alpha/docs/42',
+      timestamp: new Date('2026-06-15T12:00:00Z'),
+      attributes: { department: 'engineering' }
+    };
+
+    it('should allow when the expression holds', () => {
+      const permissions: ConditionalPermission[] = [{
+        permission: 'docs.read',
+        expression: 'resource.name.startsWith("projects/alpha") && request.time < timestamp("2026-12-31T00:00:00Z")'
+      }];
+
+      expect(engine.evaluatePermissions('docs.read', permissions, context).allowed).toBe(true);
+      expect(engine.evaluatePermissions('docs.read', permissions, {
+        ...context,
+        resource: 'projects/beta/docs/1'
+      }).allowed).toBe(false);
+    });
+
+    it('should combine expressions with conditions', () => {
+      const permissions: ConditionalPermission[] = [{
+        permission: 'docs.read',
+        conditions: [{ attribute: 'attributes.department', operator: 'equals', value: 'sales' }],
+        expression: 'attributes.department == "engineering"'
+      }];
+
+      expect(engine.evaluatePermissions('docs.read', permissions, context).allowed).toBe(false);
+    });
+
+    it('should not match when evaluation fails', () => {
+      expect(engine.evaluateExpression('attributes.missing == "x"', context)).toBe(false);
+      expect(engine.evaluateExpression('attributes.department', context)).toBe(false);
+    });
+
+    it('should not match invalid expressions', () => {
+      expect(engine.evaluateExpression('attributes.department ==', context)).toBe(false);
+    });
+
+    it('should throw for invalid expressions in strict mode', () => {
+      const strictEngine = new PermissionEngine({ connector: mockConnector, strictMode: true });
+      expect(() => strictEngine.evaluateExpression('attributes.department ==', context)).toThrow(
+        'Invalid expression'
+      );
+    });
+
+    it('should parse each expression only once', () => {
+      const cache = (engine as any).expressionCache as Map<string, unknown>;
+      engine.evaluateExpression('userId == "user-123"', context);
+      const ast = cache.get('userId == "user-123"');
+      engine.evaluateExpression('userId == "user-123"', context);
+
+      expect(cache.get('userId == "user-123"')).toBe(ast);
+    });
+
+    it('should validate expressions before they are stored', () => {
+      expect(() => engine.validatePermissions([
+        { permission: 'docs.read', expression: 'userId == "user-123"' },
+        { permission: 'docs.write' }
+      ])).not.toThrow();
+      expect(() => engine.validatePermissions([
+        { permission: 'docs.read', expression: 'userId ==' }
+      ])).toThrow('Invalid expression for permission docs.read');
+    });
+  });
+
+  describe('getReferencedAttributes', () => {
+    it('should collect attributes from conditions, references, placeholders and expressions', () => {
+      const references = engine.getReferencedAttributes([
+        {
+          permission: 'documents.edit',
+          conditions: [{
+            anyOf: [
+              { attribute: 'subject.plan', operator: 'equals', value: 'pro' },
+              { attribute: 'attributes.resource.ownerId', operator: 'equals', valueFrom: 'userId' },
+              { not: { attribute: 'attributes.team', operator: 'equals', value: '${attributes.subject.team}' } }
+            ]
+          }]
+        },
+        {
+          permission: 'documents.read',
+          expression: 'resource.locked == false && request.time < timestamp("2026-12-31T00:00:00Z") && resource.name != ""'
+        }
+      ]);
+
+      expect(references.sort()).toEqual([
+        'attributes.resource.locked',
+        'attributes.resource.ownerId',
+        'attributes.subject.team',
+        'attributes.team',
+        'resource',
+        'subject.plan',
+        'timestamp',
+        'userId'
+      ]);
+    });
+  });
+
+  describe('permission index', () => {
+    const patterns = [
+      '*', 'users.read', 'users.*', 'users.**', '**', '**.read', 'users.**.read', 'users.*.read',
+      'reports.q*', 'reports.*-admin', 'reports.q*.**', 'a.**.**.b', 'users..read', 'users.*.*'
+    ];
+    const permissions = [
+      'users', 'users.read', 'users.write', 'users.admin.read', 'users.a.b.read', 'users..read',
+      'reports.q3', 'reports.q3.read', 'reports.finance-admin', 'a.b', 'a.x.y.b', 'other.read', ''
+    ];
+
+    it('should match exactly the patterns matched one by one', () => {
+      const grants = patterns.map(permission => ({ permission }));
+
+      for (const permission of permissions) {
+        const expected = grants.filter(grant => engine.matchesPermission(permission, grant.permission));
+        expect(engine.getMatchingPermissions(permission, grants)).toEqual(expected);
+      }
+    });
+
+    it('should only match exact permissions when wildcards are disabled', () => {
+      const strictEngine = new PermissionEngine({ connector: mockConnector, wildcardSupport: false });
+      const grants = patterns.map(permission => ({ permission }));
+
+      expect(strictEngine.getMatchingPermissions('users.read', grants)).toEqual([{ permission: 'users.read' }]);
+      expect(strictEngine.getMatchingPermissions('users.*', grants)).toEqual([{ permission: 'users.*' }]);
+    });
+
+    it('should reuse the index of a permission list and rebuild it when the list changes', () => {
+      const grants: ConditionalPermission[] = [{ permission: 'users.*' }];
+      const index = engine.getPermissionIndex(grants);
+
+      expect(engine.getPermissionIndex(grants)).toBe(index);
+
+      grants.push({ permission: 'reports.read' });
+      expect(engine.getPermissionIndex(grants)).not.toBe(index);
+      expect(engine.evaluatePermissions('reports.read', grants, { userId: 'user1' }).allowed).toBe(true);
+
+      const rebuilt = engine.getPermissionIndex(grants);
+      engine.clearPermissionIndexes();
+      expect(engine.getPermissionIndex(grants)).not.toBe(rebuilt);
+    });
+
+    it('should keep the permission order for matched permissions', () => {
+      const grants: ConditionalPermission[] = [
+        { permission: 'users.**' },
+        { permission: 'users.read', effect: 'deny' },
+        { permission: '*' }
+      ];
+
+      const result = engine.evaluatePermissions('users.read', grants, { userId: 'user1' });
+
+      expect(result.allowed).toBe(false);
+      expect(result.matchedPermissions).toEqual([grants[0], grants[1]]);
+    });
+  });
+
+  describe('resource bindings', () => {
+    const grants: ConditionalPermission[] = [
+      { permission: 'docs.read', resource: 'orgs/acme' },
+      { permission: 'docs.read', resource: 'orgs/acme/projects/secret', effect: 'deny' }
+    ];
+
+    it('should apply grants to the bound resource and everything below it', () => {
+      const check = (resource?: string, resourceAncestors?: string[]) =>
+        engine.evaluatePermissions('docs.read', grants, { userId: 'user1', resource, resourceAncestors }).allowed;
+
+      expect(check('orgs/acme')).toBe(true);
+      expect(check('orgs/acme/projects/alpha/docs/42')).toBe(true);
+      expect(check('orgs/acme-labs/docs/1')).toBe(false);
+      expect(check(undefined)).toBe(false);
+      expect(check('orgs/acme/projects/secret/docs/7')).toBe(false);
+      expect(check('docs/42', ['orgs/acme/projects/alpha', 'orgs/acme'])).toBe(true);
+      expect(check('docs/7', ['orgs/acme/projects/secret'])).toBe(false);
+    });
+
+    it('should leave unbound grants unaffected', () => {
+      expect(engine.matchesResource({ permission: 'docs.read' }, { userId: 'user1' })).toBe(true);
+    });
+
+    it('should trace resource matches', () => {
+      const result = engine.evaluatePermissions(
+        'docs.read',
+        grants,
+        { userId: 'user1', resource: 'orgs/acme/docs/1' },
+        { explain: true }
+      );
+
+      expect(result.trace!.candidates.map(c => c.resourceMatched)).toEqual([true, false]);
+      expect(result.trace!.candidates[1].conditions).toBeUndefined();
+    });
+
+    it('should reject empty resource bindings', () => {
+      expect(() => engine.validatePermissions([{ permission: 'docs.read', resource: ' ' }]))
+        .toThrow('Invalid resource for permission docs.read: must be a non-empty resource path');
+    });
+  });
+
+  describe('action hierarchy', () => {
+    let hierarchyEngine: PermissionEngine;
+
+    beforeEach(() => {
+      hierarchyEngine = new PermissionEngine({ connector: mockConnector, actionHierarchy: defaultActionHierarchy });
+    });
+
+    it('should invert the hierarchy transitively', () => {
+      const implying = getImplyingActions(defaultActionHierarchy);
+
+      expect(implying.get('read')!.sort()).toEqual(['admin', 'manage', 'update']);
+      expect(implying.get('manage')).toEqual(['admin']);
+      expect(implying.has('admin')).toBe(false);
+    });
+
+    it('should tolerate cycles', () => {
+      expect(getImplyingActions({ a: ['b'], b: ['a'] })).toEqual(new Map([['b', ['a']], ['a', ['b']]]));
+    });
+
+    it('should match implied actions', () => {
+      expect(hierarchyEngine.matchesPermission('docs.read', 'docs.manage')).toBe(true);
+      expect(hierarchyEngine.matchesPermission('docs.read', 'docs.admin')).toBe(true);
+      expect(hierarchyEngine.matchesPermission('docs.delete', 'docs.manage')).toBe(true);
+      expect(hierarchyEngine.matchesPermission('docs.read', 'docs.update')).toBe(true);
+      expect(hierarchyEngine.matchesPermission('docs.update', 'docs.read')).toBe(false);
+      expect(hierarchyEngine.matchesPermission('docs.publish', 'docs.manage')).toBe(false);
+      expect(hierarchyEngine.matchesPermission('reports.read', 'docs.manage')).toBe(false);
+      expect(hierarchyEngine.matchesPermission('projects.alpha.read', 'projects.*.manage')).toBe(true);
+    });
+
+    it('should not imply actions unless configured', () => {
+      expect(engine.matchesPermission('docs.read', 'docs.manage')).toBe(false);
+    });
+
+    it('should use the hierarchy in evaluations and keep deny precedence', () => {
+      const grants: ConditionalPermission[] = [
+        { permission: 'docs.manage' },
+        { permission: 'docs.update', effect: 'deny' }
+      ];
+
+      expect(hierarchyEngine.getMatchingPermissions('docs.list', grants)).toEqual([grants[0]]);
+      expect(hierarchyEngine.evaluatePermissions('docs.list', grants, { userId: 'user1' }).allowed).toBe(true);
+      expect(hierarchyEngine.evaluatePermissions('docs.update', grants, { userId: 'user1' }).allowed).toBe(false);
+    });
+
+    it('should not widen deny grants with implied actions', () => {
+      const grants: ConditionalPermission[] = [
+        { permission: 'docs.read' },
+        { permission: 'docs.admin', effect: 'deny' }
+      ];
+
+      expect(hierarchyEngine.matchesPermission('docs.read', 'docs.admin', 'deny')).toBe(false);
+      expect(hierarchyEngine.getMatchingPermissions('docs.read', grants)).toEqual([grants[0]]);
+      expect(hierarchyEngine.evaluatePermissions('docs.read', grants, { userId: 'user1' }).allowed).toBe(true);
+      expect(hierarchyEngine.evaluatePermissions('docs.admin', grants, { userId: 'user1' }).allowed).toBe(false);
+      expect(hierarchyEngine.evaluatePermissions('docs.read', grants, { userId: 'user1' }, { explain: true }).allowed).toBe(true);
+    });
+
+    it('should reject invalid hierarchies', () => {
+      expect(() => new PermissionEngine({ connector: mockConnector, actionHierarchy: { manage: 'update' as any } }))
+        .toThrow('Invalid action hierarchy for "manage": implied actions must be an array of strings');
+    });
+  });
+
   describe('normalizePermission', () => {
     it('should normalize permission format', () => {
       expect(engine.normalizePermission('Users.Read')).toBe('users.read');
       expect(engine.normalizePermission('users..read')).toBe('users.read');
       expect(engine.normalizePermission('users...read')).toBe('users.read');
+      expect(engine.normalizePermission(' Users . Read ')).toBe('users.read');
+    });
+
+    it('should follow the normalization policy', () => {
+      const caseSensitive = new PermissionEngine({
+        connector: mockConnector,
+        normalization: { caseSensitive: true, trim: false, collapseEmptySegments: false }
+      });
+
+      expect(caseSensitive.normalizePermission('Users..Read ')).toBe('Users..Read ');
+      expect(new PermissionEngine({ connector: mockConnector, permissionSeparator: ':' })
+        .normalizePermission('Users::Read')).toBe('users:read');
     });
   });
 
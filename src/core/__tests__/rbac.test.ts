@@ -264,6 +264,72 @@ describe('RBAC', () => {
     });
   });
 
+  describe('role and group writes', () => {
+    it('should validate and create a role', async () => {
+      mockConnector.createRole.mockResolvedValue(mockRole);
+
+      const role = await rbac.createRole({ id: 'role-123', name: 'Test Role', permissions: mockRole.permissions });
+
+      expect(role).toBe(mockRole);
+      expect(mockEngine.validatePermissions).toHaveBeenCalledWith(mockRole.permissions);
+      expect(mockConnector.createRole).toHaveBeenCalled();
+    });
+
+    it('should not store a role with invalid permissions', async () => {
+      mockEngine.validatePermissions.mockImplementation(() => {
+        throw new Error('Invalid expression for permission users.read');
+      });
+
+      await expect(rbac.createRole({
+        id: 'role-123',
+        name: 'Test Role',
+        permissions: [{ permission: 'users.read', expression: 'userId ==' }]
+      })).rejects.toThrow('Invalid expression');
+      expect(mockConnector.createRole).not.toHaveBeenCalled();
+    });
+
+    it('should validate permissions on role updates', async () => {
+      mockConnector.updateRole.mockResolvedValue(mockRole);
+
+      await rbac.updateRole('role-123', { name: 'Renamed' });
+      expect(mockEngine.validatePermissions).not.toHaveBeenCalled();
+
+      await rbac.updateRole('role-123', { permissions: mockRole.permissions });
+      expect(mockEngine.validatePermissions).toHaveBeenCalledWith(mockRole.permissions);
+    });
+
+    it('should validate and write groups', async () => {
+      mockConnector.createGroup.mockResolvedValue(mockGroup);
+      mockConnector.updateGroup.mockResolvedValue(mockGroup);
+
+      await rbac.createGroup({ id: 'group-123', name: 'Test Group', members: [], permissions: mockGroup.permissions });
+      await rbac.updateGroup('group-123', { permissions: mockGroup.permissions });
+
+      expect(mockEngine.validatePermissions).toHaveBeenCalledTimes(2);
+      expect(mockConnector.createGroup).toHaveBeenCalled();
+      expect(mockConnector.updateGroup).toHaveBeenCalledWith('group-123', { permissions: mockGroup.permissions });
+    });
+
+    it('should clear cached permissions after writes', async () => {
+      mockConnector.updateRole.mockResolvedValue(mockRole);
+      (rbac as any).setCache('user_permissions:user-123', []);
+
+      await rbac.updateRole('role-123', { permissions: [] });
+
+      expect((rbac as any).cache.size).toBe(0);
+    });
+
+    it('should validate directly granted permissions', async () => {
+      mockEngine.validatePermissions.mockImplementation(() => {
+        throw new Error('Invalid expression for permission users.read');
+      });
+
+      await expect(rbac.grantPermission('user-123', { permission: 'users.read', expression: '(' }))
+        .rejects.toThrow('Invalid expression');
+      expect(mockConnector.getUserAssignment).not.toHaveBeenCalled();
+    });
+  });
+
   describe('role management', () => {
     it('should assign role to user', async () => {
       mockConnector.getUserAssignment.mockResolvedValue(null);
@@ -7,6 +7,7 @@ import {
   Permission,
   ConditionalPermission,
   PermissionCondition,
+  TypedPermissionCondition,
   PermissionContext,
   PermissionResult,
   User,
@@ -421,6 +422,23 @@ describe('Core Types', () => {
       });
     });
 
+    it('should accept typed values for extended operators', () => {
+      const conditions: TypedPermissionCondition[] = [
+        { attribute: 'attributes.email', operator: 'matches', value: '@acme\\.com$' },
+        { attribute: 'attributes.score', operator: 'between', value: [10, 20] },
+        { attribute: 'attributes.expiresAt', operator: 'between', value: ['2026-01-01', new Date()] },
+        { attribute: 'attributes.ownerId', operator: 'exists' },
+        { attribute: 'attributes.lockedBy', operator: 'notExists' },
+        { attribute: 'timestamp', operator: 'before', value: '2026-12-31T00:00:00Z' },
+        { attribute: 'timestamp', operator: 'after', value: new Date() },
+        { attribute: 'attributes.ip', operator: 'ipInCidr', value: ['10.0.0.0/8'] },
+        { attribute: 'attributes.tags', operator: 'arrayContains', value: 'beta' },
+        { attribute: 'attributes.tags', operator: 'arrayIntersects', value: ['beta', 'staff'] }
+      ];
+
+      expect(conditions).toHaveLength(10);
+    });
+
     it('should accept different value types for conditions', () => {
       const stringCondition: PermissionCondition = {
         attribute: 'name',
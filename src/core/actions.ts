@@ -0,0 +1,39 @@
+import { ActionHierarchy } from './types';
+
+/**
+ * Default action lattice: `admin` implies `manage`, `manage` implies the
+ * CRUD actions and `update` implies `read`
+ * Opt in with `createGatekeeper({ connector, actionHierarchy: defaultActionHierarchy })`
+ */
+export const defaultActionHierarchy: ActionHierarchy = {
+  admin: ['manage'],
+  manage: ['create', 'update', 'delete', 'list'],
+  update: ['read']
+};
+
+/**
+ * Invert an action hierarchy into the actions that imply each action,
+ * directly or transitively, e.g. `read` -> ['update', 'manage', 'admin']
+ */
+export function getImplyingActions(hierarchy: ActionHierarchy): Map<string, string[]> {
+  const implying = new Map<string, Set<string>>();
+
+  const visit = (action: string, implied: string, seen: Set<string>) => {
+    for (const next of hierarchy[implied] || []) {
+      if (seen.has(next)) {
+        continue;
+      }
+      seen.add(next);
+      if (next !== action) {
+        implying.set(next, (implying.get(next) || new Set()).add(action));
+      }
+      visit(action, next, seen);
+    }
+  };
+
+  for (const action of Object.keys(hierarchy)) {
+    visit(action, action, new Set([action]));
+  }
+
+  return new Map([...implying].map(([action, actions]) => [action, [...actions]]));
+}
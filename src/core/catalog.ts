@@ -0,0 +1,209 @@
+import {
+  Permission,
+  ConditionalPermission,
+  ConditionNode,
+  PermissionCatalogDefinition,
+  PermissionNormalization,
+  UncheckedPermission
+} from './types';
+import { matchesPermissionPattern } from './matcher';
+import { normalizePermissionString } from './normalization';
+
+// A single permission registered in a catalog
+export interface CatalogEntry {
+  permission: Permission;
+  resource: string;
+  action: string;
+  description?: string;
+  conditionAttributes?: string[]; // Undefined when any attribute is allowed
+}
+
+/**
+ * Registry of known permissions
+ * Built from a catalog definition of resources and their actions; used in
+ * strict mode to reject unknown permissions and typos such as `user.raed`.
+ * With a normalization policy (RBAC passes its own), entries and looked-up
+ * permissions are compared in normalized form
+ */
+export class PermissionCatalog {
+  private entries = new Map<Permission, CatalogEntry>(); // Keyed by normalized permission
+  private separator: string;
+  private normalization?: PermissionNormalization;
+
+  constructor(definition: PermissionCatalogDefinition, separator: string = '.', normalization?: PermissionNormalization) {
+    this.separator = separator;
+    this.normalization = normalization;
+
+    for (const [resource, resourceDefinition] of Object.entries(definition)) {
+      for (const [action, actionDefinition] of Object.entries(resourceDefinition.actions)) {
+        const details = typeof actionDefinition === 'string'
+          ? { description: actionDefinition }
+          : actionDefinition;
+        const attributes = resourceDefinition.conditionAttributes || details.conditionAttributes
+          ? [...(resourceDefinition.conditionAttributes || []), ...(details.conditionAttributes || [])]
+          : undefined;
+
+        const permission = `${resource}${separator}${action}`;
+        this.entries.set(this.normalize(permission), {
+          permission,
+          resource,
+          action,
+          description: details.description,
+          conditionAttributes: attributes
+        });
+      }
+    }
+  }
+
+  /**
+   * Get all registered permissions
+   */
+  getPermissions(): Permission[] {
+    return [...this.entries.values()].map(entry => entry.permission);
+  }
+
+  /**
+   * Get the catalog entry of a registered permission
+   */
+  getEntry(permission: Permission): CatalogEntry | undefined {
+    return this.entries.get(this.normalize(permission));
+  }
+
+  /**
+   * Check whether a permission is registered, or a wildcard pattern
+   * matches at least one registered permission
+   */
+  isKnown(permission: Permission): boolean {
+    if (this.entries.has(this.normalize(permission))) {
+      return true;
+    }
+
+    return permission.includes('*') && this.getMatchingEntries(permission).length > 0;
+  }
+
+  /**
+   * Suggest the closest registered permission for an unknown one
+   */
+  suggest(permission: Permission): Permission | undefined {
+    let best: Permission | undefined;
+    let bestDistance = Infinity;
+    const normalized = this.normalize(permission);
+
+    for (const [key, entry] of this.entries) {
+      const distance = editDistance(normalized, key);
+      if (distance < bestDistance) {
+        best = entry.permission;
+        bestDistance = distance;
+      }
+    }
+
+    // Only suggest near misses
+    return bestDistance <= Math.max(2, Math.floor(permission.length / 4)) ? best : undefined;
+  }
+
+  /**
+   * Validate a permission (and its condition attributes) against the catalog
+   * `referencedAttributes` are the context paths read by the permission's
+   * conditions, `valueFrom`, placeholders and expression (RBAC passes
+   * PermissionEngine.getReferencedAttributes); without them, only the
+   * attributes compared by conditions are checked.
+   * Throws an Error naming the unknown permission or attribute
+   */
+  validate(conditionalPermission: ConditionalPermission, referencedAttributes?: string[]): void {
+    const { permission } = conditionalPermission;
+    if (!this.isKnown(permission)) {
+      throw new Error(this.unknownPermissionMessage(permission));
+    }
+
+    const restricted = this.getMatchingEntries(permission).filter(entry => entry.conditionAttributes);
+    const attributes = referencedAttributes || getConditionAttributes(conditionalPermission.conditions || []);
+    for (const attribute of attributes) {
+      const entry = restricted.find(e => !e.conditionAttributes!.includes(attribute));
+      if (entry) {
+        throw new Error(`Condition attribute "${attribute}" is not allowed for permission ${entry.permission}`);
+      }
+    }
+  }
+
+  /**
+   * Build the error message for an unknown permission
+   */
+  unknownPermissionMessage(permission: Permission): string {
+    const suggestion = this.suggest(permission);
+    return `Unknown permission: ${permission}` + (suggestion ? ` (did you mean ${suggestion}?)` : '');
+  }
+
+  private getMatchingEntries(pattern: Permission): CatalogEntry[] {
+    const normalized = this.normalize(pattern);
+    if (!normalized.includes('*')) {
+      const entry = this.entries.get(normalized);
+      return entry ? [entry] : [];
+    }
+
+    return [...this.entries].filter(([key]) =>
+      matchesPermissionPattern(key, normalized, this.separator)
+    ).map(([, entry]) => entry);
+  }
+
+  private normalize(permission: Permission): Permission {
+    return this.normalization
+      ? normalizePermissionString(permission, this.normalization, this.separator)
+      : permission;
+  }
+}
+
+/**
+ * Declare a catalog, keeping its literal resource and action names so that
+ * CatalogPermission<typeof catalog> can be derived from it
+ */
+export function defineCatalog<C extends PermissionCatalogDefinition>(catalog: C): C {
+  return catalog;
+}
+
+/**
+ * Mark a permission built at runtime as accepted by typed permission checks
+ */
+export function uncheckedPermission(permission: string): UncheckedPermission {
+  return permission as UncheckedPermission;
+}
+
+/**
+ * Collect the attributes compared by a condition tree
+ */
+function getConditionAttributes(nodes: ConditionNode[]): string[] {
+  const attributes: string[] = [];
+
+  const visit = (node: ConditionNode) => {
+    if ('allOf' in node || 'anyOf' in node) {
+      ('allOf' in node ? node.allOf : node.anyOf).forEach(visit);
+    } else if ('not' in node) {
+      visit(node.not);
+    } else {
+      attributes.push(node.attribute);
+    }
+  };
+
+  nodes.forEach(visit);
+  return attributes;
+}
+
+/**
+ * Levenshtein distance, used for typo suggestions
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
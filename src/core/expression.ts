@@ -0,0 +1,656 @@
+/**
+ * IAM-style condition expressions
+ * A small, side-effect free subset of Google's Common Expression Language (CEL):
+ *
+ *   resource.name.startsWith("projects/alpha") && request.time < timestamp("2026-12-31T00:00:00Z")
+ *
+ * Expressions are parsed into an AST once and evaluated by walking the tree;
+ * nothing is ever passed to `eval` or `Function`.
+ */
+
+import { ExpressionFunction } from './types';
+
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: string }
+  | { type: 'index'; object: ExpressionNode; index: ExpressionNode }
+  | { type: 'call'; callee: string; target?: ExpressionNode; args: ExpressionNode[] }
+  | { type: 'list'; items: ExpressionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+export type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in'
+  | '+' | '-' | '*' | '/' | '%';
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  '&&', '||', '==', '!=', '<=', '>=',
+  '<', '>', '!', '+', '-', '*', '/', '%', '?', ':', '.', ',', '(', ')', '[', ']'
+];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null
+};
+
+/**
+ * Span of time produced by `duration("1h30m")`
+ */
+class Duration {
+  constructor(public readonly milliseconds: number) {}
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid expression at position ${position}: ${message}`);
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^(?:\d+\.\d+|\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(position))!;
+      tokens.push({ type: 'number', value: match[0], position });
+      position += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position))!;
+      tokens.push({ type: 'identifier', value: match[0], position });
+      position += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = position;
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === '\\') {
+          position++;
+          const escaped = source[position];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'" };
+          if (escaped === undefined || !Object.prototype.hasOwnProperty.call(escapes, escaped)) {
+            fail(`unsupported escape sequence "\\${escaped ?? ''}"`);
+          }
+          value += escapes[escaped];
+        } else {
+          value += source[position];
+        }
+        position++;
+      }
+      if (position >= source.length) {
+        position = start;
+        fail('unterminated string literal');
+      }
+      position++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, position));
+    if (!operator) {
+      fail(`unexpected character "${char}"`);
+    }
+    tokens.push({ type: 'operator', value: operator!, position });
+    position += operator!.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser producing an ExpressionNode tree
+ */
+class Parser {
+  private tokens: Token[];
+  private current = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    if (this.peek().type !== 'end') {
+      this.fail(`unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (this.match('?')) {
+      const consequent = this.parseConditional();
+      this.expect(':');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  // Operator precedence, lowest first
+  private static readonly PRECEDENCE: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!=', '<', '<=', '>', '>=', 'in'],
+    ['+', '-'],
+    ['*', '/', '%']
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    const operators = Parser.PRECEDENCE[level];
+    let left = this.parseBinary(level + 1);
+
+    for (;;) {
+      const token = this.peek();
+      const isOperator = (token.type === 'operator' || (token.type === 'identifier' && token.value === 'in')) &&
+        (operators as string[]).includes(token.value);
+      if (!isOperator) {
+        return left;
+      }
+      this.current++;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right };
+
+      // Relations do not chain: `a < b < c` is a syntax error, as in CEL
+      if (level === 2) {
+        const next = this.peek();
+        if ((next.type === 'operator' || next.type === 'identifier') && (operators as string[]).includes(next.value)) {
+          this.fail(`unexpected "${next.value}"`);
+        }
+        return left;
+      }
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.match('!')) {
+      return { type: 'unary', operator: '!', operand: this.parseUnary() };
+    }
+    if (this.match('-')) {
+      return { type: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.match('.')) {
+        const name = this.expectIdentifier();
+        if (this.match('(')) {
+          node = { type: 'call', callee: name, target: node, args: this.parseArguments(')') };
+        } else {
+          node = { type: 'member', object: node, property: name };
+        }
+      } else if (this.match('[')) {
+        const index = this.parseConditional();
+        this.expect(']');
+        node = { type: 'index', object: node, index };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.current++;
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'string':
+        this.current++;
+        return { type: 'literal', value: token.value };
+
+      case 'identifier':
+        this.current++;
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        if (this.match('(')) {
+          return { type: 'call', callee: token.value, args: this.parseArguments(')') };
+        }
+        return { type: 'identifier', name: token.value };
+
+      case 'operator':
+        if (this.match('(')) {
+          const node = this.parseConditional();
+          this.expect(')');
+          return node;
+        }
+        if (this.match('[')) {
+          return { type: 'list', items: this.parseArguments(']') };
+        }
+        break;
+    }
+
+    return this.fail(token.type === 'end' ? 'unexpected end of expression' : `unexpected "${token.value}"`);
+  }
+
+  private parseArguments(closing: ')' | ']'): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.match(closing)) {
+      return args;
+    }
+    do {
+      args.push(this.parseConditional());
+    } while (this.match(','));
+    this.expect(closing);
+    return args;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.current];
+  }
+
+  private match(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      this.fail(`expected "${operator}"`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail('expected a field or method name');
+    }
+    this.current++;
+    return token.value;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid expression at position ${this.peek().position}: ${message}`);
+  }
+}
+
+/**
+ * Parse an expression into an AST
+ * Throws an Error describing the position of the first syntax error
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (typeof source !== 'string' || source.trim().length === 0) {
+    throw new Error('Invalid expression: expression must be a non-empty string');
+  }
+  return new Parser(source).parse();
+}
+
+/**
+ * Parse a duration string such as "90s", "15m" or "1h30m"
+ */
+function parseDuration(text: unknown): Duration {
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  if (typeof text !== 'string' || !/^(\d+(\.\d+)?(h|ms|m|s))+$/.test(text)) {
+    throw new Error(`Invalid duration: ${String(text)}`);
+  }
+
+  let milliseconds = 0;
+  const pattern = /(\d+(?:\.\d+)?)(h|ms|m|s)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    milliseconds += Number(match[1]) * units[match[2]];
+  }
+  return new Duration(milliseconds);
+}
+
+function parseTimestamp(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp: ${String(value)}`);
+  }
+  return date;
+}
+
+function sizeOf(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length;
+  }
+  throw new Error('size() requires a string, list or map');
+}
+
+/**
+ * Functions available to every expression
+ */
+export const builtinExpressionFunctions: Record<string, ExpressionFunction> = {
+  size: sizeOf,
+  timestamp: parseTimestamp,
+  duration: parseDuration,
+  int: (value: unknown) => {
+    const number = Math.trunc(Number(value));
+    if (isNaN(number)) {
+      throw new Error(`Cannot convert ${String(value)} to int`);
+    }
+    return number;
+  },
+  string: (value: unknown) => (value instanceof Date ? value.toISOString() : String(value)),
+  startsWith: (target: unknown, prefix: unknown) => requireString(target).startsWith(requireString(prefix)),
+  endsWith: (target: unknown, suffix: unknown) => requireString(target).endsWith(requireString(suffix)),
+  contains: (target: unknown, item: unknown) => (
+    Array.isArray(target) ? target.some(entry => isEqual(entry, item)) : requireString(target).includes(requireString(item))
+  ),
+  matches: (target: unknown, pattern: unknown) => new RegExp(requireString(pattern)).test(requireString(target)),
+  lowerAscii: (target: unknown) => requireString(target).toLowerCase(),
+  upperAscii: (target: unknown) => requireString(target).toUpperCase()
+};
+
+function requireString(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error('Expected a string');
+  }
+  return value;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime();
+  }
+  if (left instanceof Duration && right instanceof Duration) {
+    return left.milliseconds === right.milliseconds;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => isEqual(item, right[i]));
+  }
+  return left === right;
+}
+
+function compare(left: unknown, right: unknown): number {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() - right.getTime();
+  }
+  if (left instanceof Duration && right instanceof Duration) {
+    return left.milliseconds - right.milliseconds;
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  throw new Error('Values are not comparable');
+}
+
+function requireBoolean(value: unknown): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error('Expected a boolean');
+  }
+  return value;
+}
+
+/**
+ * Evaluate a parsed expression against a set of variables
+ * Errors (missing fields, type mismatches, unknown functions) are thrown;
+ * `&&` and `||` absorb errors when the other side decides the result, as in CEL.
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  variables: Record<string, unknown>,
+  functions: Record<string, ExpressionFunction> = builtinExpressionFunctions
+): unknown {
+  const evaluate = (current: ExpressionNode): unknown => {
+    switch (current.type) {
+      case 'literal':
+        return current.value;
+
+      case 'identifier':
+        if (!Object.prototype.hasOwnProperty.call(variables, current.name)) {
+          throw new Error(`Unknown variable: ${current.name}`);
+        }
+        return variables[current.name];
+
+      case 'member':
+        return readField(evaluate(current.object), current.property);
+
+      case 'index': {
+        const object = evaluate(current.object);
+        const index = evaluate(current.index);
+        if (Array.isArray(object) && typeof index === 'number') {
+          if (index < 0 || index >= object.length) {
+            throw new Error(`Index out of range: ${index}`);
+          }
+          return object[index];
+        }
+        return readField(object, String(index));
+      }
+
+      case 'list':
+        return current.items.map(evaluate);
+
+      case 'call': {
+        if (!Object.prototype.hasOwnProperty.call(functions, current.callee)) {
+          throw new Error(`Unknown function: ${current.callee}`);
+        }
+        const args = current.args.map(evaluate);
+        if (current.target) {
+          args.unshift(evaluate(current.target));
+        }
+        return (functions[current.callee] as (...values: unknown[]) => unknown)(...args);
+      }
+
+      case 'unary': {
+        const operand = evaluate(current.operand);
+        if (current.operator === '!') {
+          return !requireBoolean(operand);
+        }
+        if (typeof operand !== 'number') {
+          throw new Error('Expected a number');
+        }
+        return -operand;
+      }
+
+      case 'conditional':
+        return requireBoolean(evaluate(current.test))
+          ? evaluate(current.consequent)
+          : evaluate(current.alternate);
+
+      case 'binary':
+        return evaluateBinary(current.operator, current.left, current.right);
+    }
+  };
+
+  const evaluateLogical = (operator: '&&' | '||', left: ExpressionNode, right: ExpressionNode): boolean => {
+    const decisive = operator === '||';
+    let leftError: unknown = null;
+    try {
+      if (requireBoolean(evaluate(left)) === decisive) {
+        return decisive;
+      }
+    } catch (error) {
+      leftError = error;
+    }
+
+    const rightValue = requireBoolean(evaluate(right));
+    if (rightValue === decisive) {
+      return decisive;
+    }
+    if (leftError) {
+      throw leftError;
+    }
+    return rightValue;
+  };
+
+  const evaluateBinary = (operator: BinaryOperator, leftNode: ExpressionNode, rightNode: ExpressionNode): unknown => {
+    if (operator === '&&' || operator === '||') {
+      return evaluateLogical(operator, leftNode, rightNode);
+    }
+
+    const left = evaluate(leftNode);
+    const right = evaluate(rightNode);
+
+    switch (operator) {
+      case '==':
+        return isEqual(left, right);
+      case '!=':
+        return !isEqual(left, right);
+      case '<':
+        return compare(left, right) < 0;
+      case '<=':
+        return compare(left, right) <= 0;
+      case '>':
+        return compare(left, right) > 0;
+      case '>=':
+        return compare(left, right) >= 0;
+      case 'in':
+        if (Array.isArray(right)) {
+          return right.some(item => isEqual(item, left));
+        }
+        if (right && typeof right === 'object' && typeof left === 'string') {
+          return Object.prototype.hasOwnProperty.call(right, left);
+        }
+        throw new Error('"in" requires a list or map');
+      case '+':
+        if (left instanceof Date && right instanceof Duration) {
+          return new Date(left.getTime() + right.milliseconds);
+        }
+        if (typeof left === 'number' && typeof right === 'number') {
+          return left + right;
+        }
+        if (typeof left === 'string' && typeof right === 'string') {
+          return left + right;
+        }
+        if (Array.isArray(left) && Array.isArray(right)) {
+          return [...left, ...right];
+        }
+        throw new Error('Invalid operands for "+"');
+      case '-':
+        if (left instanceof Date && right instanceof Duration) {
+          return new Date(left.getTime() - right.milliseconds);
+        }
+        if (left instanceof Date && right instanceof Date) {
+          return new Duration(left.getTime() - right.getTime());
+        }
+        return requireNumber(left) - requireNumber(right);
+      case '*':
+        return requireNumber(left) * requireNumber(right);
+      case '/':
+        if (requireNumber(right) === 0) {
+          throw new Error('Division by zero');
+        }
+        return requireNumber(left) / requireNumber(right);
+      case '%':
+        if (requireNumber(right) === 0) {
+          throw new Error('Division by zero');
+        }
+        return requireNumber(left) % requireNumber(right);
+    }
+  };
+
+  return evaluate(node);
+}
+
+function requireNumber(value: unknown): number {
+  if (typeof value !== 'number') {
+    throw new Error('Expected a number');
+  }
+  return value;
+}
+
+function readField(object: unknown, property: string): unknown {
+  if (object && typeof object === 'object' && !Array.isArray(object) &&
+      Object.prototype.hasOwnProperty.call(object, property)) {
+    return (object as Record<string, unknown>)[property];
+  }
+  throw new Error(`No such field: ${property}`);
+}
+
+/**
+ * Collect the dotted variable paths an expression reads, e.g. `resource.name`
+ */
+export function getExpressionReferences(node: ExpressionNode): string[] {
+  const references = new Set<string>();
+
+  const pathOf = (current: ExpressionNode): string | null => {
+    if (current.type === 'identifier') {
+      return current.name;
+    }
+    if (current.type === 'member') {
+      const parent = pathOf(current.object);
+      return parent === null ? null : `${parent}.${current.property}`;
+    }
+    return null;
+  };
+
+  const visit = (current: ExpressionNode): void => {
+    const path = pathOf(current);
+    if (path !== null) {
+      references.add(path);
+      return;
+    }
+
+    switch (current.type) {
+      case 'member':
+        visit(current.object);
+        break;
+      case 'index':
+        visit(current.object);
+        visit(current.index);
+        break;
+      case 'call':
+        if (current.target) {
+          visit(current.target);
+        }
+        current.args.forEach(visit);
+        break;
+      case 'list':
+        current.items.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'conditional':
+        visit(current.test);
+        visit(current.consequent);
+        visit(current.alternate);
+        break;
+    }
+  };
+
+  visit(node);
+  return [...references];
+}
@@ -0,0 +1,197 @@
+import { Permission } from './types';
+
+/**
+ * Permission pattern matching shared by the engine, utilities and NextAuth helpers
+ *
+ * Patterns are matched segment by segment:
+ * - `*` on its own matches every permission
+ * - `*` as a segment matches exactly one segment (`users.*` matches `users.read`, not `users.admin.read`)
+ * - `**` matches zero or more segments (`users.**` matches `users`, `users.read` and `users.admin.read`)
+ * - `*` inside a segment matches any characters within that segment (`reports.q*` matches `reports.q3`)
+ */
+export function matchesPermissionPattern(
+  permission: Permission,
+  pattern: Permission,
+  separator: string = '.'
+): boolean {
+  if (pattern === '*' || permission === pattern) {
+    return true;
+  }
+
+  if (!pattern.includes('*')) {
+    return false;
+  }
+
+  return matchSegments(pattern.split(separator), 0, permission.split(separator), 0);
+}
+
+/**
+ * Match a single segment against a pattern segment, where `*` matches any
+ * (possibly empty) run of characters
+ */
+export function matchesSegment(segment: string, patternSegment: string): boolean {
+  if (patternSegment === '*') {
+    return segment.length > 0;
+  }
+
+  if (!patternSegment.includes('*')) {
+    return segment === patternSegment;
+  }
+
+  const parts = patternSegment.split('*');
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  if (!segment.startsWith(first) || segment.length < first.length + last.length) {
+    return false;
+  }
+
+  let position = first.length;
+  for (const part of parts.slice(1, -1)) {
+    const index = segment.indexOf(part, position);
+    if (index === -1) {
+      return false;
+    }
+    position = index + part.length;
+  }
+
+  return segment.length - last.length >= position && segment.endsWith(last);
+}
+
+function matchSegments(pattern: string[], i: number, segments: string[], j: number): boolean {
+  if (i === pattern.length) {
+    return j === segments.length;
+  }
+
+  if (pattern[i] === '**') {
+    // Skip consecutive globstars, then try every possible split point
+    let next = i;
+    while (next < pattern.length && pattern[next] === '**') {
+      next++;
+    }
+    for (let k = j; k <= segments.length; k++) {
+      if (matchSegments(pattern, next, segments, k)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return j < segments.length &&
+         matchesSegment(segments[j], pattern[i]) &&
+         matchSegments(pattern, i + 1, segments, j + 1);
+}
+
+interface IndexNode {
+  literal: Map<string, IndexNode>;
+  wildcard?: IndexNode; // `*`
+  globstar?: IndexNode; // `**`
+  partial: [string, IndexNode][]; // In-segment wildcards such as `q*`
+  terminal: number[]; // Indices of the patterns ending at this node
+}
+
+function createNode(): IndexNode {
+  return { literal: new Map(), partial: [], terminal: [] };
+}
+
+/**
+ * Segment trie over a list of permission patterns
+ * Finds every pattern matching a permission without testing each pattern in
+ * turn; results are identical to matchesPermissionPattern
+ */
+export class PermissionIndex {
+  readonly patterns: Permission[];
+  private root = createNode();
+  private universal: number[] = [];
+  private separator: string;
+
+  constructor(patterns: Permission[], separator: string = '.', wildcardSupport: boolean = true) {
+    this.patterns = patterns;
+    this.separator = separator;
+
+    patterns.forEach((pattern, index) => {
+      if (wildcardSupport && pattern === '*') {
+        this.universal.push(index);
+        return;
+      }
+
+      let node = this.root;
+      for (const segment of pattern.split(separator)) {
+        node = this.child(node, segment, wildcardSupport);
+      }
+      node.terminal.push(index);
+    });
+  }
+
+  /**
+   * Get the indices (in pattern order) of the patterns matching a permission
+   */
+  match(permission: Permission): number[] {
+    const matches = new Set<number>(this.universal);
+    const segments = permission.split(this.separator);
+    const visited = new Set<string>();
+
+    const walk = (node: IndexNode, position: number, id: string) => {
+      // Globstars can reach the same node and position in several ways
+      const key = `${id}@${position}`;
+      if (visited.has(key)) {
+        return;
+      }
+      visited.add(key);
+
+      if (node.globstar) {
+        for (let next = position; next <= segments.length; next++) {
+          walk(node.globstar, next, `${id}/**`);
+        }
+      }
+
+      if (position === segments.length) {
+        node.terminal.forEach(index => matches.add(index));
+        return;
+      }
+
+      const segment = segments[position];
+      const literal = node.literal.get(segment);
+      if (literal) {
+        walk(literal, position + 1, `${id}/=${segment}`);
+      }
+      if (node.wildcard && segment.length > 0) {
+        walk(node.wildcard, position + 1, `${id}/*`);
+      }
+      for (const [patternSegment, child] of node.partial) {
+        if (matchesSegment(segment, patternSegment)) {
+          walk(child, position + 1, `${id}/~${patternSegment}`);
+        }
+      }
+    };
+
+    walk(this.root, 0, '');
+    return [...matches].sort((a, b) => a - b);
+  }
+
+  private child(node: IndexNode, segment: string, wildcardSupport: boolean): IndexNode {
+    if (wildcardSupport && segment === '*') {
+      return node.wildcard || (node.wildcard = createNode());
+    }
+
+    if (wildcardSupport && segment === '**') {
+      return node.globstar || (node.globstar = createNode());
+    }
+
+    if (wildcardSupport && segment.includes('*')) {
+      const existing = node.partial.find(([patternSegment]) => patternSegment === segment);
+      if (existing) {
+        return existing[1];
+      }
+      const created = createNode();
+      node.partial.push([segment, created]);
+      return created;
+    }
+
+    let literal = node.literal.get(segment);
+    if (!literal) {
+      literal = createNode();
+      node.literal.set(segment, literal);
+    }
+    return literal;
+  }
+}
@@ -0,0 +1,79 @@
+import { Group, GroupMember, GroupMemberRef } from './types';
+
+/**
+ * Group members are stored as typed references (`{ type: 'user', id }` or
+ * `{ type: 'group', id }`). Bare user id strings and embedded `Group` objects
+ * are legacy forms that are still read, see migrationUtils.migrateGroupMembers
+ */
+
+/**
+ * Reference a user as a group member
+ */
+export function userMember(id: string): GroupMemberRef {
+  return { type: 'user', id };
+}
+
+/**
+ * Reference a group as a nested group member
+ */
+export function groupMember(id: string): GroupMemberRef {
+  return { type: 'group', id };
+}
+
+/**
+ * Convert any stored member form to a typed reference
+ */
+export function toMemberRef(member: GroupMember): GroupMemberRef {
+  if (typeof member === 'string') {
+    return userMember(member);
+  }
+  if ('type' in member) {
+    return { type: member.type, id: member.id };
+  }
+  return groupMember(member.id);
+}
+
+/**
+ * Convert a member list to typed references, dropping duplicates
+ */
+export function toMemberRefs(members: GroupMember[]): GroupMemberRef[] {
+  const refs: GroupMemberRef[] = [];
+
+  for (const member of members) {
+    const ref = toMemberRef(member);
+    if (!refs.some(existing => existing.type === ref.type && existing.id === ref.id)) {
+      refs.push(ref);
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Check whether a member list already consists of typed references only
+ */
+export function isNormalizedMembers(members: GroupMember[]): boolean {
+  return members.every(member => typeof member === 'object' && 'type' in member);
+}
+
+/**
+ * Check whether a member is the given user or group, in any stored form
+ */
+export function isMember(member: GroupMember, type: GroupMemberRef['type'], id: string): boolean {
+  const ref = toMemberRef(member);
+  return ref.type === type && ref.id === id;
+}
+
+/**
+ * Get the ids of the users listed directly in a group's members
+ */
+export function getMemberUserIds(group: Group): string[] {
+  return toMemberRefs(group.members).filter(ref => ref.type === 'user').map(ref => ref.id);
+}
+
+/**
+ * Get the ids of the groups nested directly in a group's members
+ */
+export function getNestedGroupIds(group: Pick<Group, 'members'>): string[] {
+  return toMemberRefs(group.members).filter(ref => ref.type === 'group').map(ref => ref.id);
+}
@@ -0,0 +1,48 @@
+import { Permission, ConditionalPermission, PermissionNormalization, PermissionSeparatorSource } from './types';
+
+/**
+ * Normalize a permission string according to a normalization policy
+ * By default permissions are lowercased, segments are trimmed and empty
+ * segments are collapsed, so `' Reports..Read '` becomes `'reports.read'`
+ */
+export function normalizePermissionString(
+  permission: Permission,
+  policy: PermissionNormalization = {},
+  separator: string = '.'
+): Permission {
+  const { caseSensitive = false, trim = true, collapseEmptySegments = true } = policy;
+
+  let segments = permission.split(separator);
+  if (trim) {
+    segments = segments.map(segment => segment.trim());
+  }
+  if (collapseEmptySegments) {
+    segments = segments.filter(segment => segment.length > 0);
+  }
+
+  const normalized = segments.join(separator);
+  return caseSensitive ? normalized : normalized.toLowerCase();
+}
+
+/**
+ * Normalize the permission strings of a list of conditional permissions,
+ * leaving conditions and other fields untouched
+ */
+export function normalizeConditionalPermissions(
+  permissions: ConditionalPermission[],
+  policy: PermissionNormalization = {},
+  separator: string = '.'
+): ConditionalPermission[] {
+  return permissions.map(permission => ({
+    ...permission,
+    permission: normalizePermissionString(permission.permission, policy, separator)
+  }));
+}
+
+/**
+ * Get the separator of a separator source: a separator string, or the
+ * separator configured on an RBAC instance
+ */
+export function resolvePermissionSeparator(source: PermissionSeparatorSource = '.'): string {
+  return typeof source === 'string' ? source : source.getPermissionSeparator();
+}
@@ -2,10 +2,80 @@ import {
   Permission,
   ConditionalPermission,
   PermissionCondition,
+  ConditionNode,
   PermissionContext,
   PermissionResult,
-  RBACConfig
+  RBACConfig,
+  ScheduleWindow,
+  Weekday,
+  ConditionOperatorDefinition,
+  ExpressionFunction,
+  CombiningAlgorithm,
+  PermissionCheckOptions,
+  PermissionSource,
+  CandidateTrace,
+  ConditionTrace,
+  User
 } from './types';
+import {
+  ExpressionNode,
+  parseExpression,
+  evaluateExpression,
+  getExpressionReferences,
+  builtinExpressionFunctions
+} from './expression';
+import { matchesPermissionPattern, PermissionIndex } from './matcher';
+import { normalizePermissionString } from './normalization';
+import { getImplyingActions } from './actions';
+import { isResourceWithin } from './resources';
+
+// Operators implemented by PermissionEngine itself
+const BUILTIN_OPERATORS: string[] = [
+  'equals', 'notEquals', 'in', 'notIn', 'startsWith', 'endsWith', 'contains',
+  'greaterThan', 'lessThan', 'matches', 'between', 'exists', 'notExists',
+  'before', 'after', 'ipInCidr', 'arrayContains', 'arrayIntersects', 'withinSchedule'
+];
+
+// Outcome of a condition or expression; indeterminate when it cannot be decided
+// (unresolved placeholder, failed attribute provider or expression error)
+type ConditionOutcome = boolean | 'indeterminate';
+
+function combineAllOf(outcomes: ConditionOutcome[]): ConditionOutcome {
+  if (outcomes.includes(false)) {
+    return false;
+  }
+  return outcomes.includes('indeterminate') ? 'indeterminate' : true;
+}
+
+function combineAnyOf(outcomes: ConditionOutcome[]): ConditionOutcome {
+  if (outcomes.includes(true)) {
+    return true;
+  }
+  return outcomes.includes('indeterminate') ? 'indeterminate' : false;
+}
+
+function negate(outcome: ConditionOutcome): ConditionOutcome {
+  return outcome === 'indeterminate' ? outcome : !outcome;
+}
+
+// Allows need conditions that hold; denies apply unless their conditions are false
+function appliesWith(outcome: ConditionOutcome, effect: 'allow' | 'deny'): boolean {
+  return effect === 'deny' ? outcome !== false : outcome === true;
+}
+
+function traceOutcome(trace: ConditionTrace): ConditionOutcome {
+  return trace.indeterminate ? 'indeterminate' : trace.outcome;
+}
+
+function toTraceOutcome(outcome: ConditionOutcome): { outcome: boolean; indeterminate?: true } {
+  return outcome === 'indeterminate' ? { outcome: false, indeterminate: true } : { outcome };
+}
+
+const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const COMBINING_ALGORITHMS: CombiningAlgorithm[] = [
+  'deny-overrides', 'permit-overrides', 'first-applicable', 'priority'
+];
 
 /**
  * Core permission evaluation engine
@@ -13,20 +83,65 @@ import {
  */
 export class PermissionEngine {
   private config: RBACConfig;
+  private regexCache: Map<string, RegExp | null> = new Map();
+  private timeFormatCache: Map<string, Intl.DateTimeFormat> = new Map();
+  private expressionCache: Map<string, ExpressionNode | Error> = new Map();
+  private permissionIndexes: WeakMap<ConditionalPermission[], PermissionIndex> = new WeakMap();
+  private expressionFunctions: Record<string, ExpressionFunction>;
+  private implyingActions: Map<string, string[]>;
 
   constructor(config: RBACConfig) {
     this.config = {
       permissionSeparator: '.',
       wildcardSupport: true,
       strictMode: false,
+      combiningAlgorithm: 'deny-overrides',
       ...config
     };
+
+    if (!COMBINING_ALGORITHMS.includes(this.config.combiningAlgorithm!)) {
+      throw new Error(`Unknown combining algorithm: ${this.config.combiningAlgorithm}`);
+    }
+
+    for (const name of Object.keys(this.config.operators || {})) {
+      if (BUILTIN_OPERATORS.includes(name)) {
+        throw new Error(`Cannot register condition operator "${name}": it is a built-in operator`);
+      }
+    }
+
+    for (const name of Object.keys(this.config.functions || {})) {
+      if (Object.prototype.hasOwnProperty.call(builtinExpressionFunctions, name)) {
+        throw new Error(`Cannot register expression function "${name}": it is a built-in function`);
+      }
+    }
+    this.expressionFunctions = { ...builtinExpressionFunctions, ...this.config.functions };
+
+    for (const [action, implied] of Object.entries(this.config.actionHierarchy || {})) {
+      if (!Array.isArray(implied) || implied.some(a => typeof a !== 'string')) {
+        throw new Error(`Invalid action hierarchy for "${action}": implied actions must be an array of strings`);
+      }
+    }
+    this.implyingActions = getImplyingActions(this.config.actionHierarchy || {});
   }
 
   /**
    * Check if a permission matches a required permission with wildcard support
+   * (`*`, `**` and in-segment wildcards, see matchesPermissionPattern) and the
+   * configured action hierarchy (`docs.manage` matches `docs.read`). The
+   * hierarchy only widens allow grants: a deny matches on its pattern alone
    */
-  public matchesPermission(required: Permission, granted: Permission): boolean {
+  public matchesPermission(
+    required: Permission,
+    granted: Permission,
+    effect: ConditionalPermission['effect'] = 'allow'
+  ): boolean {
+    return this.matchesPattern(required, granted) || (
+      effect !== 'deny' &&
+      this.getImplyingPermissions(required).some(implying => this.matchesPattern(implying, granted))
+    );
+  }
+
+  private matchesPattern(required: Permission, granted: Permission): boolean {
     if (required === granted) {
       return true;
     }
@@ -36,119 +151,697 @@ export class PermissionEngine {
     }
 
     // Handle wildcards
-    if (granted.includes('*')) {
-      return this.matchesWildcard(required, granted);
+    return matchesPermissionPattern(required, granted, this.config.permissionSeparator);
+  }
+
+  /**
+   * Get the permissions that imply a permission through the action hierarchy,
+   * e.g. `docs.update` and `docs.manage` for `docs.read`
+   */
+  private getImplyingPermissions(permission: Permission): Permission[] {
+    if (this.implyingActions.size === 0) {
+      return [];
     }
 
-    return false;
+    const separator = this.config.permissionSeparator!;
+    const position = permission.lastIndexOf(separator);
+    const action = position === -1 ? permission : permission.slice(position + separator.length);
+    const prefix = position === -1 ? '' : permission.slice(0, position + separator.length);
+
+    return (this.implyingActions.get(action) || []).map(implying => prefix + implying);
   }
 
   /**
-   * Wildcard matching logic
-   * Supports patterns like:
-   * - users.* (matches users.read, users.write, etc.)
-   * - users.*.read (matches users.john.read, users.jane.read, etc.)
-   * - * (matches everything)
+   * Look up a permission in the compiled index of a permission list, including
+   * the allow grants that imply it through the action hierarchy
    */
-  private matchesWildcard(required: Permission, pattern: Permission): boolean {
-    const separator = this.config.permissionSeparator!;
-    
-    // Handle universal wildcard
-    if (pattern === '*') {
-      return true;
+  private matchIndex(conditionalPermissions: ConditionalPermission[], required: Permission): number[] {
+    const index = this.getPermissionIndex(conditionalPermissions);
+    const implying = this.getImplyingPermissions(required);
+    if (implying.length === 0) {
+      return index.match(required);
     }
-    
-    // Convert pattern to regex
-    const regexPattern = pattern
-      .split(separator)
-      .map(part => {
-        if (part === '*') {
-          return '[^' + separator.replace(/[.*+?^${}()|[\\]\\]/g, '\\\\$&') + ']+';
-        }
-        return part.replace(/[.*+?^${}()|[\\]\\]/g, '\\\\$&');
-      })
-      .join('\\' + separator);
 
-    const regex = new RegExp('^' + regexPattern + '$');
-    return regex.test(required);
+    const impliedMatches = implying
+      .flatMap(permission => index.match(permission))
+      .filter(position => conditionalPermissions[position].effect !== 'deny');
+    const matches = new Set([...index.match(required), ...impliedMatches]);
+    return [...matches].sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the permissions whose pattern matches a required permission, in order
+   * Uses the compiled index of the permission list (see getPermissionIndex)
+   */
+  public getMatchingPermissions(
+    required: Permission,
+    conditionalPermissions: ConditionalPermission[]
+  ): ConditionalPermission[] {
+    return this.matchIndex(conditionalPermissions, required)
+      .map(index => conditionalPermissions[index]);
+  }
+
+  /**
+   * Get the compiled segment trie of a permission list
+   * Indexes are cached per list and rebuilt when its permissions change, so a
+   * cached list of effective permissions is only compiled once
+   */
+  public getPermissionIndex(conditionalPermissions: ConditionalPermission[]): PermissionIndex {
+    const cached = this.permissionIndexes.get(conditionalPermissions);
+    if (
+      cached &&
+      cached.patterns.length === conditionalPermissions.length &&
+      conditionalPermissions.every((perm, i) => perm.permission === cached.patterns[i])
+    ) {
+      return cached;
+    }
+
+    const index = new PermissionIndex(
+      conditionalPermissions.map(perm => perm.permission),
+      this.config.permissionSeparator,
+      this.config.wildcardSupport
+    );
+    this.permissionIndexes.set(conditionalPermissions, index);
+    return index;
+  }
+
+  /**
+   * Drop all compiled permission indexes
+   */
+  public clearPermissionIndexes(): void {
+    this.permissionIndexes = new WeakMap();
   }
 
   /**
    * Evaluate conditions for a permission
+   * A flat list of conditions is treated as an implicit allOf
    */
   public evaluateConditions(
-    conditions: PermissionCondition[],
+    conditions: ConditionNode[],
     context: PermissionContext
   ): boolean {
-    if (!conditions || conditions.length === 0) {
-      return true;
+    return this.getConditionsOutcome(conditions || [], context) === true;
+  }
+
+  /**
+   * Check whether a permission's conditions and expression both hold
+   * Indeterminate conditions and expressions (an unresolved placeholder, a
+   * failed provider or an expression error) never make an allow apply, but a
+   * deny still applies, so missing context fails closed
+   */
+  public evaluatePermissionConditions(
+    conditionalPermission: ConditionalPermission,
+    context: PermissionContext
+  ): boolean {
+    const outcomes = [this.getConditionsOutcome(conditionalPermission.conditions || [], context)];
+    if (conditionalPermission.expression !== undefined) {
+      outcomes.push(this.getExpressionOutcome(conditionalPermission.expression, context).outcome);
+    }
+
+    return appliesWith(combineAllOf(outcomes), conditionalPermission.effect || 'allow');
+  }
+
+  /**
+   * Evaluate an IAM-style condition expression
+   * Expressions are parsed once and cached; anything other than `true`
+   * (including evaluation errors such as missing fields) does not hold
+   */
+  public evaluateExpression(expression: string, context: PermissionContext): boolean {
+    return this.getExpressionOutcome(expression, context).outcome === true;
+  }
+
+  /**
+   * Evaluate an expression with three-valued logic: syntax and evaluation
+   * errors (such as missing fields) are indeterminate, with their message
+   */
+  private getExpressionOutcome(
+    expression: string,
+    context: PermissionContext
+  ): { outcome: ConditionOutcome; error?: string } {
+    const ast = this.getExpressionAst(expression);
+    if (ast instanceof Error) {
+      if (this.config.strictMode) {
+        throw ast;
+      }
+      return { outcome: 'indeterminate', error: ast.message };
     }
 
-    return conditions.every(condition => this.evaluateCondition(condition, context));
+    try {
+      return { outcome: evaluateExpression(ast, this.getExpressionVariables(context), this.expressionFunctions) === true };
+    } catch (error) {
+      return { outcome: 'indeterminate', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Validate permissions before they are stored
+   * Throws an Error describing the first invalid priority, expression,
+   * unknown operator or value rejected by a custom operator
+   */
+  public validatePermissions(conditionalPermissions: ConditionalPermission[]): void {
+    for (const conditionalPerm of conditionalPermissions) {
+      if (conditionalPerm.priority !== undefined && !Number.isFinite(conditionalPerm.priority)) {
+        throw new Error(`Invalid priority for permission ${conditionalPerm.permission}: must be a finite number`);
+      }
+
+      if (
+        conditionalPerm.resource !== undefined &&
+        (typeof conditionalPerm.resource !== 'string' || conditionalPerm.resource.trim() === '')
+      ) {
+        throw new Error(`Invalid resource for permission ${conditionalPerm.permission}: must be a non-empty resource path`);
+      }
+
+      for (const condition of conditionalPerm.conditions || []) {
+        this.validateConditionNode(condition, `permission ${conditionalPerm.permission}`);
+      }
+
+      if (conditionalPerm.expression === undefined) {
+        continue;
+      }
+
+      const ast = this.getExpressionAst(conditionalPerm.expression);
+      if (ast instanceof Error) {
+        throw new Error(`Invalid expression for permission ${conditionalPerm.permission}: ${ast.message}`);
+      }
+    }
+  }
+
+  /**
+   * Validate a group membership rule before it is stored
+   */
+  public validateMembershipRule(rule: ConditionNode[], groupId: string): void {
+    rule.forEach(node => this.validateConditionNode(node, `membership rule of group ${groupId}`));
+  }
+
+  /**
+   * Evaluate a group membership rule against a user record
+   * Attribute paths are relative to the user, e.g. `email` or `metadata.department`
+   */
+  public evaluateMembershipRule(rule: ConditionNode[], user: User): boolean {
+    return this.evaluateConditions(rule, { ...user, userId: user.id });
+  }
+
+  private validateConditionNode(node: ConditionNode, owner: string): void {
+    if ('allOf' in node || 'anyOf' in node) {
+      const children = 'allOf' in node ? node.allOf : node.anyOf;
+      children.forEach(child => this.validateConditionNode(child, owner));
+      return;
+    }
+
+    if ('not' in node) {
+      this.validateConditionNode(node.not, owner);
+      return;
+    }
+
+    if (BUILTIN_OPERATORS.includes(node.operator)) {
+      return;
+    }
+
+    let operator: ConditionOperatorDefinition;
+    try {
+      operator = this.getCustomOperator(node.operator);
+    } catch (error) {
+      throw new Error(`Invalid condition for ${owner}: ${(error as Error).message}`);
+    }
+
+    if (node.valueFrom === undefined && operator.validateValue && !operator.validateValue(node.value)) {
+      throw new Error(
+        `Invalid condition for ${owner}: value ${JSON.stringify(node.value)} is not valid for operator ${node.operator}`
+      );
+    }
+  }
+
+  /**
+   * Collect the context paths that the conditions and expressions of the
+   * given permissions read, e.g. `attributes.resource.locked` or `subject.plan`
+   */
+  public getReferencedAttributes(conditionalPermissions: ConditionalPermission[]): string[] {
+    const references = new Set<string>();
+
+    const addPlaceholders = (value: unknown) => {
+      const values = Array.isArray(value) ? value : [value];
+      for (const item of values) {
+        if (typeof item === 'string') {
+          for (const match of item.match(/\$\{[^}]+\}/g) || []) {
+            references.add(match.slice(2, -1).trim());
+          }
+        }
+      }
+    };
+
+    const visit = (node: ConditionNode) => {
+      if ('allOf' in node || 'anyOf' in node) {
+        ('allOf' in node ? node.allOf : node.anyOf).forEach(visit);
+      } else if ('not' in node) {
+        visit(node.not);
+      } else {
+        references.add(node.attribute);
+        if (node.valueFrom !== undefined) {
+          references.add(node.valueFrom);
+        }
+        addPlaceholders(node.value);
+      }
+    };
+
+    for (const conditionalPerm of conditionalPermissions) {
+      if (conditionalPerm.resource !== undefined) {
+        references.add('resource');
+      }
+      (conditionalPerm.conditions || []).forEach(visit);
+
+      const ast = conditionalPerm.expression !== undefined
+        ? this.getExpressionAst(conditionalPerm.expression)
+        : null;
+      if (ast && !(ast instanceof Error)) {
+        for (const reference of getExpressionReferences(ast)) {
+          references.add(this.toContextPath(reference));
+        }
+      }
+    }
+
+    return [...references];
+  }
+
+  /**
+   * Map an expression variable path to the context path it reads
+   * (`resource.*` and `request.*` are backed by `attributes.resource.*` / `attributes.request.*`)
+   */
+  private toContextPath(reference: string): string {
+    if (reference === 'resource.name') {
+      return 'resource';
+    }
+    if (reference === 'request.time') {
+      return 'timestamp';
+    }
+    if (reference.startsWith('resource.') || reference.startsWith('request.')) {
+      return `attributes.${reference}`;
+    }
+    return reference;
+  }
+
+  private getExpressionAst(expression: string): ExpressionNode | Error {
+    let ast = this.expressionCache.get(expression);
+    if (!ast) {
+      try {
+        ast = parseExpression(expression);
+      } catch (error) {
+        ast = error instanceof Error ? error : new Error(String(error));
+      }
+      this.expressionCache.set(expression, ast);
+    }
+    return ast;
+  }
+
+  /**
+   * Variables visible to expressions
+   * `request.time` is the check timestamp and `resource.name` the checked resource,
+   * merged with any `attributes.request` / `attributes.resource` objects
+   */
+  private getExpressionVariables(context: PermissionContext): Record<string, unknown> {
+    const attributes = context.attributes || {};
+    const asObject = (value: unknown) => (value && typeof value === 'object' ? value : {});
+
+    return {
+      userId: context.userId,
+      action: context.action,
+      timestamp: context.timestamp,
+      attributes,
+      request: {
+        ...asObject(attributes.request),
+        ...(context.timestamp ? { time: context.timestamp } : {})
+      },
+      resource: {
+        ...asObject(attributes.resource),
+        ...(context.resource !== undefined ? { name: context.resource } : {})
+      },
+      subject: asObject(context.subject)
+    };
+  }
+
+  /**
+   * Evaluate a condition tree node (allOf / anyOf / not or a leaf condition)
+   * Indeterminate nodes do not hold
+   */
+  public evaluateConditionNode(
+    node: ConditionNode,
+    context: PermissionContext
+  ): boolean {
+    return this.getConditionNodeOutcome(node, context) === true;
+  }
+
+  /**
+   * Evaluate a flat list of conditions (implicit allOf) with three-valued logic
+   */
+  private getConditionsOutcome(conditions: ConditionNode[], context: PermissionContext): ConditionOutcome {
+    return combineAllOf(conditions.map(condition => this.getConditionNodeOutcome(condition, context)));
+  }
+
+  /**
+   * Evaluate a condition tree node with three-valued logic: `not` keeps an
+   * indeterminate child indeterminate instead of inverting it
+   */
+  private getConditionNodeOutcome(node: ConditionNode, context: PermissionContext): ConditionOutcome {
+    if ('allOf' in node) {
+      return combineAllOf(node.allOf.map(child => this.getConditionNodeOutcome(child, context)));
+    }
+
+    if ('anyOf' in node) {
+      return combineAnyOf(node.anyOf.map(child => this.getConditionNodeOutcome(child, context)));
+    }
+
+    if ('not' in node) {
+      return negate(this.getConditionNodeOutcome(node.not, context));
+    }
+
+    return this.evaluateCondition(node, context);
   }
 
   /**
    * Evaluate a single condition
+   * A value with an unresolved placeholder or read from an attribute whose
+   * provider failed cannot be compared, so the condition is indeterminate
+   * (unresolved placeholders throw in strict mode)
    */
   private evaluateCondition(
     condition: PermissionCondition,
     context: PermissionContext
-  ): boolean {
+  ): ConditionOutcome {
     const contextValue = this.getContextValue(condition.attribute, context);
+    if (contextValue === undefined && this.isUnresolvedAttribute(condition.attribute, context)) {
+      return 'indeterminate';
+    }
+
+    // Presence checks are the only operators that apply to missing values
+    if (condition.operator === 'exists') {
+      return contextValue !== undefined && contextValue !== null;
+    }
+
+    if (condition.operator === 'notExists') {
+      return contextValue === undefined || contextValue === null;
+    }
     
     if (contextValue === undefined || contextValue === null) {
       return false;
     }
 
-    switch (condition.operator) {
+    if (condition.valueFrom !== undefined) {
+      const referenced = this.getContextValue(condition.valueFrom, context);
+      if (referenced === undefined && this.isUnresolvedAttribute(condition.valueFrom, context)) {
+        return 'indeterminate';
+      }
+      if (referenced === undefined || referenced === null) {
+        return false;
+      }
+      return this.applyOperator(condition.operator, contextValue, referenced, context);
+    }
+
+    const resolved = this.resolvePlaceholders(condition.value, context);
+    if (!resolved.complete) {
+      if (this.config.strictMode) {
+        throw new Error(
+          `Unresolved placeholder in condition on "${condition.attribute}": ${resolved.missing.join(', ')}`
+        );
+      }
+      return 'indeterminate'; // Never compare unresolved placeholders as literal text
+    }
+    return this.applyOperator(condition.operator, contextValue, resolved.value, context);
+  }
+
+  /**
+   * Check whether an attribute lies under a path whose provider failed
+   */
+  private isUnresolvedAttribute(attribute: string, context: PermissionContext): boolean {
+    return (context.unresolvedAttributes || []).some(
+      path => attribute === path || attribute.startsWith(path + '.')
+    );
+  }
+
+  /**
+   * Apply a comparison operator to the resolved left and right values
+   */
+  private applyOperator(
+    operator: PermissionCondition['operator'],
+    contextValue: unknown,
+    value: unknown,
+    context: PermissionContext
+  ): boolean {
+    switch (operator) {
       case 'equals':
-        return contextValue === condition.value;
+        return contextValue === value;
       
       case 'notEquals':
-        return contextValue !== condition.value;
+        return contextValue !== value;
       
       case 'in':
-        return Array.isArray(condition.value) && 
-               (condition.value as any[]).includes(contextValue);
+        return Array.isArray(value) && 
+               value.includes(contextValue);
       
       case 'notIn':
-        return Array.isArray(condition.value) && 
-               !(condition.value as any[]).includes(contextValue);
+        return Array.isArray(value) && 
+               !value.includes(contextValue);
       
       case 'startsWith':
         return typeof contextValue === 'string' && 
-               typeof condition.value === 'string' &&
-               contextValue.startsWith(condition.value);
+               typeof value === 'string' &&
+               contextValue.startsWith(value);
       
       case 'endsWith':
         return typeof contextValue === 'string' && 
-               typeof condition.value === 'string' &&
-               contextValue.endsWith(condition.value);
+               typeof value === 'string' &&
+               contextValue.endsWith(value);
       
       case 'contains':
         return typeof contextValue === 'string' && 
-               typeof condition.value === 'string' &&
-               contextValue.includes(condition.value);
+               typeof value === 'string' &&
+               contextValue.includes(value);
       
       case 'greaterThan':
+        if (contextValue instanceof Date) {
+          return this.compareDates(contextValue, value) > 0;
+        }
         return typeof contextValue === 'number' && 
-               typeof condition.value === 'number' &&
-               contextValue > condition.value;
+               typeof value === 'number' &&
+               contextValue > value;
       
       case 'lessThan':
+        if (contextValue instanceof Date) {
+          return this.compareDates(contextValue, value) < 0;
+        }
         return typeof contextValue === 'number' && 
-               typeof condition.value === 'number' &&
-               contextValue < condition.value;
+               typeof value === 'number' &&
+               contextValue < value;
+
+      case 'matches': {
+        const regex = typeof value === 'string' ? this.getRegex(value) : null;
+        return typeof contextValue === 'string' &&
+               regex !== null &&
+               regex.test(contextValue);
+      }
+
+      case 'between': {
+        if (!Array.isArray(value) || value.length !== 2) {
+          return false;
+        }
+        const [min, max] = value;
+        if (typeof contextValue === 'number' && typeof min === 'number' && typeof max === 'number') {
+          return contextValue >= min && contextValue <= max;
+        }
+        return this.compareDates(contextValue, min) >= 0 &&
+               this.compareDates(contextValue, max) <= 0;
+      }
+
+      case 'before':
+        return this.compareDates(contextValue, value) < 0;
+
+      case 'after':
+        return this.compareDates(contextValue, value) > 0;
+
+      case 'ipInCidr': {
+        const ranges: unknown[] = Array.isArray(value) ? value : [value];
+        return typeof contextValue === 'string' &&
+               ranges.some(range => typeof range === 'string' && ipInCidr(contextValue, range));
+      }
+
+      case 'arrayContains':
+        return Array.isArray(contextValue) && contextValue.includes(value);
+
+      case 'arrayIntersects':
+        return Array.isArray(contextValue) &&
+               Array.isArray(value) &&
+               value.some(item => contextValue.includes(item));
+      
+      case 'withinSchedule': {
+        const windows: unknown[] = Array.isArray(value) ? value : [value];
+        return windows.some(window => this.isWithinSchedule(contextValue, window));
+      }
       
       default:
+        return this.getCustomOperator(operator).evaluate(contextValue, value, context) === true;
+    }
+  }
+
+  /**
+   * Look up an operator registered through RBACConfig.operators
+   */
+  private getCustomOperator(operator: string): ConditionOperatorDefinition {
+    const operators = this.config.operators || {};
+    if (!Object.prototype.hasOwnProperty.call(operators, operator)) {
+      throw new Error(`Unknown condition operator: ${operator}`);
+    }
+    return operators[operator];
+  }
+
+  /**
+   * Check whether a point in time falls inside a schedule window
+   */
+  private isWithinSchedule(time: unknown, schedule: unknown): boolean {
+    const timestamp = toTime(time);
+    if (isNaN(timestamp) || !schedule || typeof schedule !== 'object') {
+      return false;
+    }
+
+    const window = schedule as ScheduleWindow;
+    if (window.from !== undefined && !(timestamp >= toTime(window.from))) {
+      return false;
+    }
+
+    if (window.until !== undefined && !(timestamp < toTime(window.until))) {
+      return false;
+    }
+
+    const local = this.getLocalTime(timestamp, window.timeZone || 'UTC');
+    if (!local) {
+      return false;
+    }
+
+    const start = window.startTime !== undefined ? parseClockTime(window.startTime) : 0;
+    const end = window.endTime !== undefined ? parseClockTime(window.endTime) : 24 * 60;
+    if (start === null || end === null) {
+      return false;
+    }
+
+    // An overnight window belongs to the day it starts on, so its early
+    // morning part is checked against the previous day
+    let day = local.day;
+    if (start <= end) {
+      if (local.minutes < start || local.minutes >= end) {
         return false;
+      }
+    } else if (local.minutes < end) {
+      day = WEEKDAYS[(WEEKDAYS.indexOf(day) + WEEKDAYS.length - 1) % WEEKDAYS.length];
+    } else if (local.minutes < start) {
+      return false;
+    }
+
+    return !window.days || window.days.includes(day);
+  }
+
+  /**
+   * Get the local day of week and minutes since midnight in a time zone
+   */
+  private getLocalTime(
+    timestamp: number,
+    timeZone: string
+  ): { day: Weekday; minutes: number } | null {
+    let formatter = this.timeFormatCache.get(timeZone);
+    if (!formatter) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          weekday: 'short',
+          hour: '2-digit',
+          minute: '2-digit',
+          hourCycle: 'h23'
+        });
+      } catch {
+        return null; // Unknown time zone
+      }
+      this.timeFormatCache.set(timeZone, formatter);
+    }
+
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(new Date(timestamp))) {
+      parts[part.type] = part.value;
+    }
+
+    return {
+      day: parts.weekday.toLowerCase().slice(0, 3) as Weekday,
+      minutes: (Number(parts.hour) % 24) * 60 + Number(parts.minute)
+    };
+  }
+
+  /**
+   * Compare two points in time (Date, ISO string or epoch milliseconds)
+   * Returns NaN when either side is not a valid date, so every comparison fails
+   */
+  private compareDates(left: unknown, right: unknown): number {
+    return toTime(left) - toTime(right);
+  }
+
+  /**
+   * Compile and cache regular expressions used by the `matches` operator
+   */
+  private getRegex(source: string): RegExp | null {
+    if (!this.regexCache.has(source)) {
+      let regex: RegExp | null;
+      try {
+        regex = new RegExp(source);
+      } catch {
+        regex = null; // Invalid patterns never match
+      }
+      this.regexCache.set(source, regex);
+    }
+    return this.regexCache.get(source)!;
+  }
+
+  /**
+   * Resolve `${...}` placeholders in a condition value against the context.
+   * A value that is exactly one placeholder keeps the type of the resolved
+   * value; placeholders embedded in a longer string are interpolated as text.
+   * Placeholder paths use the same dot notation as condition attributes,
+   * e.g. `${userId}`, `${attributes.ownerId}` or `${timestamp}`.
+   */
+  private resolvePlaceholders(
+    value: unknown,
+    context: PermissionContext
+  ): { value: unknown; complete: boolean; missing: string[] } {
+    const missing: string[] = [];
+
+    const resolveString = (text: string): unknown => {
+      const whole = /^\$\{([^}]+)\}$/.exec(text);
+      if (whole) {
+        const resolved = this.getContextValue(whole[1].trim(), context);
+        if (resolved === undefined || resolved === null) {
+          missing.push(text);
+          return text;
+        }
+        return resolved;
+      }
+
+      return text.replace(/\$\{([^}]+)\}/g, (match, path: string) => {
+        const resolved = this.getContextValue(path.trim(), context);
+        if (resolved === undefined || resolved === null) {
+          missing.push(match);
+          return match;
+        }
+        return resolved instanceof Date ? resolved.toISOString() : String(resolved);
+      });
+    };
+
+    let result = value;
+    if (typeof value === 'string') {
+      result = resolveString(value);
+    } else if (Array.isArray(value)) {
+      result = value.map(item => typeof item === 'string' ? resolveString(item) : item);
     }
+
+    return { value: result, complete: missing.length === 0, missing };
   }
 
   /**
    * Get value from context using dot notation
    */
-  private getContextValue(attribute: string, context: PermissionContext): any {
+  public getContextValue(attribute: string, context: PermissionContext): any {
     const parts = attribute.split('.');
     let value: any = context;
 
@@ -164,52 +857,208 @@ export class PermissionEngine {
   }
 
   /**
-   * Evaluate a list of conditional permissions against a required permission
+   * Evaluate permissions with conditions
+   * Applicable permissions (matching pattern and conditions) are combined
+   * using the configured combining algorithm. With `explain`, every
+   * permission is evaluated and the result carries a DecisionTrace;
+   * `sources` (aligned with the permissions) are copied into the trace
    */
   public evaluatePermissions(
     requiredPermission: Permission,
     conditionalPermissions: ConditionalPermission[],
-    context: PermissionContext
+    context: PermissionContext,
+    options: PermissionCheckOptions & { sources?: PermissionSource[] } = {}
   ): PermissionResult {
+    const algorithm = this.config.combiningAlgorithm!;
     const matchedPermissions: ConditionalPermission[] = [];
-    const deniedBy: ConditionalPermission[] = [];
-    let allowed = false;
+    const candidates: CandidateTrace[] = [];
+    let settled = false;
 
-    for (const conditionalPerm of conditionalPermissions) {
-      // Check if permission matches
-      if (this.matchesPermission(requiredPermission, conditionalPerm.permission)) {
-        // Check conditions
-        const conditionsMatch = this.evaluateConditions(
-          conditionalPerm.conditions || [],
-          context
-        );
+    // Without explain, only the permissions whose pattern matches are visited
+    const matching = new Set(this.matchIndex(conditionalPermissions, requiredPermission));
+    const visited = options.explain
+      ? conditionalPermissions.map((_, index) => index)
+      : [...matching];
 
-        if (conditionsMatch) {
-          matchedPermissions.push(conditionalPerm);
-
-          // Handle effect
-          const effect = conditionalPerm.effect || 'allow';
-          if (effect === 'allow') {
-            allowed = true;
-          } else if (effect === 'deny') {
-            deniedBy.push(conditionalPerm);
-            allowed = false; // Deny overrides allow
-            break; // Stop processing on explicit deny
-          }
-        }
+    for (const index of visited) {
+      const conditionalPerm = conditionalPermissions[index];
+      if (settled && !options.explain) {
+        break;
       }
-    }
 
-    // In strict mode, require explicit permission
-    if (this.config.strictMode && matchedPermissions.length === 0) {
-      allowed = false;
+      // Check if permission matches, then its conditions
+      let applicable: boolean;
+      if (options.explain) {
+        const candidate = this.traceCandidate(conditionalPerm, matching.has(index), context, !settled);
+        candidate.source = options.sources?.[index];
+        candidates.push(candidate);
+        applicable = candidate.applicable;
+      } else {
+        applicable = this.matchesResource(conditionalPerm, context) &&
+                     this.evaluatePermissionConditions(conditionalPerm, context);
+      }
+
+      if (!applicable || settled) {
+        continue;
+      }
+
+      matchedPermissions.push(conditionalPerm);
+
+      // Stop as soon as later permissions can no longer change the decision
+      const effect = conditionalPerm.effect || 'allow';
+      if (algorithm === 'first-applicable' || (algorithm === 'deny-overrides' && effect === 'deny')) {
+        settled = true;
+      }
     }
 
+    const { allowed, decidedBy, rule } = this.combineEffects(matchedPermissions, algorithm);
+    const deniedBy = allowed ? [] : decidedBy;
+
     return {
       allowed,
       matchedPermissions,
       deniedBy: deniedBy.length > 0 ? deniedBy : undefined,
-      reason: this.getResultReason(allowed, matchedPermissions, deniedBy)
+      reason: this.getResultReason(allowed, allowed ? decidedBy : matchedPermissions, deniedBy),
+      ...(options.explain
+        ? { trace: { permission: requiredPermission, combiningAlgorithm: algorithm, candidates, decidedBy, rule } }
+        : {})
+    };
+  }
+
+  /**
+   * Check a grant's resource binding: the checked resource or one of its
+   * ancestors must be the bound resource or lie below it. Unbound grants
+   * apply to every resource
+   */
+  public matchesResource(conditionalPerm: ConditionalPermission, context: PermissionContext): boolean {
+    if (conditionalPerm.resource === undefined) {
+      return true;
+    }
+
+    if (context.resource === undefined) {
+      return false;
+    }
+
+    return [context.resource, ...(context.resourceAncestors || [])]
+      .some(resource => isResourceWithin(resource, conditionalPerm.resource!));
+  }
+
+  /**
+   * Combine the effects of applicable permissions into a decision
+   * `decidedBy` holds the permissions whose effect determined the outcome
+   */
+  private combineEffects(
+    applicable: ConditionalPermission[],
+    algorithm: CombiningAlgorithm
+  ): { allowed: boolean; decidedBy: ConditionalPermission[]; rule: string } {
+    const withEffect = (perms: ConditionalPermission[], effect: 'allow' | 'deny') =>
+      perms.filter(p => (p.effect || 'allow') === effect);
+
+    if (applicable.length === 0) {
+      return { allowed: false, decidedBy: [], rule: 'no applicable permission (default deny)' };
+    }
+
+    let candidates = applicable;
+    let scope = '';
+    switch (algorithm) {
+      case 'permit-overrides': {
+        const allows = withEffect(applicable, 'allow');
+        return allows.length > 0
+          ? { allowed: true, decidedBy: allows, rule: 'permit-overrides: an applicable allow overrides any deny' }
+          : { allowed: false, decidedBy: withEffect(applicable, 'deny'), rule: 'permit-overrides: only denies applied' };
+      }
+      case 'first-applicable':
+        return {
+          allowed: (applicable[0].effect || 'allow') === 'allow',
+          decidedBy: applicable.slice(0, 1),
+          rule: 'first-applicable: the first applicable permission decides'
+        };
+      case 'priority': {
+        const top = Math.max(...applicable.map(p => p.priority ?? 0));
+        candidates = applicable.filter(p => (p.priority ?? 0) === top);
+        scope = ` among permissions with the highest priority (${top})`;
+        break;
+      }
+    }
+
+    // deny-overrides, also applied within the highest priority
+    const denies = withEffect(candidates, 'deny');
+    return denies.length > 0
+      ? { allowed: false, decidedBy: denies, rule: `${algorithm}: an applicable deny overrides any allow${scope}` }
+      : { allowed: true, decidedBy: candidates, rule: `${algorithm}: no applicable deny${scope}` };
+  }
+
+  /**
+   * Evaluate one permission for explain mode, recording every step
+   */
+  private traceCandidate(
+    conditionalPerm: ConditionalPermission,
+    patternMatched: boolean,
+    context: PermissionContext,
+    considered: boolean
+  ): CandidateTrace {
+    const candidate: CandidateTrace = {
+      permission: conditionalPerm,
+      effect: conditionalPerm.effect || 'allow',
+      patternMatched,
+      applicable: false,
+      considered
+    };
+
+    if (!candidate.patternMatched) {
+      return candidate;
+    }
+
+    if (conditionalPerm.resource !== undefined) {
+      candidate.resourceMatched = this.matchesResource(conditionalPerm, context);
+      if (!candidate.resourceMatched) {
+        return candidate;
+      }
+    }
+
+    candidate.conditions = (conditionalPerm.conditions || []).map(node => this.traceConditionNode(node, context));
+    const outcomes = candidate.conditions.map(traceOutcome);
+
+    if (conditionalPerm.expression !== undefined) {
+      const { outcome, error } = this.getExpressionOutcome(conditionalPerm.expression, context);
+      candidate.expression = {
+        expression: conditionalPerm.expression,
+        ...toTraceOutcome(outcome),
+        ...(error ? { error } : {})
+      };
+      outcomes.push(outcome);
+    }
+
+    candidate.applicable = appliesWith(combineAllOf(outcomes), candidate.effect);
+    return candidate;
+  }
+
+  /**
+   * Evaluate a condition tree node, recording resolved values and outcomes
+   */
+  private traceConditionNode(node: ConditionNode, context: PermissionContext): ConditionTrace {
+    if ('allOf' in node || 'anyOf' in node) {
+      const type = 'allOf' in node ? 'allOf' : 'anyOf';
+      const children = ('allOf' in node ? node.allOf : node.anyOf).map(child => this.traceConditionNode(child, context));
+      const outcomes = children.map(traceOutcome);
+      return { type, ...toTraceOutcome(type === 'allOf' ? combineAllOf(outcomes) : combineAnyOf(outcomes)), children };
+    }
+
+    if ('not' in node) {
+      const child = this.traceConditionNode(node.not, context);
+      return { type: 'not', ...toTraceOutcome(negate(traceOutcome(child))), child };
+    }
+
+    const right = node.valueFrom !== undefined
+      ? this.getContextValue(node.valueFrom, context)
+      : this.resolvePlaceholders(node.value, context).value;
+
+    return {
+      type: 'condition',
+      condition: node,
+      left: this.getContextValue(node.attribute, context),
+      right,
+      ...toTraceOutcome(this.evaluateCondition(node, context))
     };
   }
 
@@ -241,18 +1090,13 @@ export class PermissionEngine {
   }
 
   /**
-   * Normalize permission format
+   * Normalize permission format using the configured normalization policy
    */
   public normalizePermission(permission: Permission): Permission {
-    // Remove extra separators and trim
-    const separator = this.config.permissionSeparator!;
-    return permission
-      .split(separator)
-      .filter(part => part.length > 0)
-      .join(separator)
-      .toLowerCase();
+    return normalizePermissionString(permission, this.config.normalization, this.config.permissionSeparator);
   }
 
+
   /**
    * Parse permission into components
    */
@@ -292,4 +1136,135 @@ export class PermissionEngine {
         return { components };
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Convert a Date, ISO string or epoch milliseconds to a timestamp
+ */
+function toTime(value: unknown): number {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return Date.parse(value);
+  }
+  return NaN;
+}
+
+/**
+ * Parse a 'HH:mm' clock time into minutes since midnight
+ */
+function parseClockTime(text: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into its bytes
+ */
+function parseIp(address: string): number[] | null {
+  if (address.includes(':')) {
+    return parseIpv6(address);
+  }
+
+  const parts = address.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const bytes = parts.map(part => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return bytes.every(byte => byte >= 0 && byte <= 255) ? bytes : null;
+}
+
+function parseIpv6(address: string): number[] | null {
+  // Embedded IPv4 suffix, e.g. ::ffff:192.168.0.1
+  let tail: number[] = [];
+  const lastColon = address.lastIndexOf(':');
+  if (address.slice(lastColon + 1).includes('.')) {
+    const ipv4 = parseIp(address.slice(lastColon + 1));
+    if (!ipv4) {
+      return null;
+    }
+    tail = ipv4;
+    address = address.slice(0, lastColon + 1) + '0:0';
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (text: string) => (text === '' ? [] : text.split(':'));
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  const bytes: number[] = [];
+  for (const group of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) {
+      return null;
+    }
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+
+  if (tail.length > 0) {
+    bytes.splice(12, 4, ...tail);
+  }
+  return bytes;
+}
+
+/**
+ * Check whether an IP address falls inside a CIDR range
+ * IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) match IPv4 ranges
+ */
+function ipInCidr(address: string, cidr: string): boolean {
+  const [rangeAddress, prefixText] = cidr.split('/');
+  let ip = parseIp(address.trim());
+  const range = parseIp(rangeAddress.trim());
+  if (!ip || !range) {
+    return false;
+  }
+
+  if (ip.length === 16 && range.length === 4 &&
+      ip.slice(0, 10).every(byte => byte === 0) && ip[10] === 0xff && ip[11] === 0xff) {
+    ip = ip.slice(12);
+  }
+  if (ip.length !== range.length) {
+    return false;
+  }
+
+  if (prefixText !== undefined && !/^\d+$/.test(prefixText.trim())) {
+    return false;
+  }
+  const prefix = prefixText === undefined ? ip.length * 8 : Number(prefixText);
+  if (prefix > ip.length * 8) {
+    return false;
+  }
+
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const bits = Math.min(8, prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    const index = bit / 8;
+    if ((ip[index] & mask) !== (range[index] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
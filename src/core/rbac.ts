@@ -1,4 +1,5 @@
 import {
+  User,
   Group,
   Role,
   Permission,
@@ -6,28 +7,76 @@ import {
   PermissionContext,
   PermissionResult,
   DatabaseConnector,
-  RBACConfig
+  RBACConfig,
+  AttributeProvider,
+  PermissionCheckOptions,
+  PermissionSource,
+  PermissionGrant,
+  UncheckedPermission,
+  UserAssignment,
+  GroupMember
 } from './types';
 import { PermissionEngine } from './permission-engine';
+import { PermissionCatalog } from './catalog';
+import { normalizeConditionalPermissions, normalizePermissionString } from './normalization';
+import { getMemberUserIds, getNestedGroupIds, groupMember, isMember, toMemberRefs, userMember } from './members';
+
+// Result of an attribute provider call; `failed` when it threw or timed out
+interface ProvidedAttribute {
+  value: unknown;
+  failed?: true;
+}
 
 /**
  * Main RBAC class that orchestrates permission checking
  * Handles user resolution, group membership, role assignments, and caching
+ * `P` narrows the permissions accepted by checks (see createGatekeeper with a catalog)
  */
-export class RBAC {
+export class RBAC<P extends string = Permission> {
   private engine: PermissionEngine;
   private connector: DatabaseConnector;
   private config: RBACConfig;
   private cache: Map<string, { data: any; expires: number }> = new Map();
+  private attributeProviders: Record<string, AttributeProvider>;
+  private catalog?: PermissionCatalog;
 
   constructor(config: RBACConfig) {
     this.config = {
       cacheEnabled: false, // Disabled by default for immediate updates
       cacheTTL: 300, // 5 minutes
+      attributeProviderTimeout: 1000,
+      permissionSeparator: '.',
+      maxGroupDepth: 10,
       ...config
     };
     this.connector = config.connector;
     this.engine = new PermissionEngine(this.config);
+    this.attributeProviders = {
+      ...(this.config.subjectAttributes ? { 'subject.*': ({ userId }) => this.getSubject(userId) } : {}),
+      ...this.config.attributeProviders
+    };
+    if (this.config.catalog) {
+      this.catalog = new PermissionCatalog(
+        this.config.catalog,
+        this.config.permissionSeparator,
+        this.config.normalization || {}
+      );
+    }
+  }
+
+  /**
+   * Get the permission catalog, if one is configured
+   */
+  getCatalog(): PermissionCatalog | undefined {
+    return this.catalog;
+  }
+
+  /**
+   * Get the configured permission separator, for building permissions with
+   * createPermissionUtils and the template factories
+   */
+  getPermissionSeparator(): string {
+    return this.config.permissionSeparator || '.';
   }
 
   /**
@@ -35,8 +84,9 @@ export class RBAC {
    */
   async hasPermission(
     userId: string,
-    permission: Permission,
-    context?: Partial<PermissionContext>
+    permission: P | UncheckedPermission,
+    context?: Partial<PermissionContext>,
+    options: PermissionCheckOptions = {}
   ): Promise<PermissionResult> {
     const fullContext: PermissionContext = {
       userId,
@@ -44,29 +94,87 @@ export class RBAC {
       ...context
     };
 
-    // Get user's effective permissions
-    const userPermissions = await this.getUserEffectivePermissions(userId);
+    // Get user's effective permissions (with their sources when explaining)
+    let userPermissions: ConditionalPermission[];
+    let sources: PermissionSource[] | undefined;
+    if (options.explain) {
+      const grants = await this.resolvePermissionGrants(userId);
+      userPermissions = grants.map(grant => grant.permission);
+      sources = grants.map(grant => grant.source);
+    } else {
+      userPermissions = await this.getUserEffectivePermissions(userId);
+    }
     
     // Normalize the required permission
     const normalizedPermission = this.engine.normalizePermission(permission);
+    this.assertKnownPermission(normalizedPermission);
+
+    // Load provided attributes referenced by matching permissions, then the
+    // ancestors of the checked resource when a matching grant is resource-bound
+    const attributeContext = await this.resolveProvidedAttributes(
+      normalizedPermission,
+      userPermissions,
+      fullContext,
+      new Map()
+    );
+    const evaluationContext = await this.resolveResourceAncestors(
+      normalizedPermission,
+      userPermissions,
+      attributeContext,
+      new Map()
+    );
 
     // Evaluate permissions
+    if (options.explain) {
+      return this.engine.evaluatePermissions(
+        normalizedPermission,
+        userPermissions,
+        evaluationContext,
+        { explain: true, sources }
+      );
+    }
+
     return this.engine.evaluatePermissions(
       normalizedPermission,
       userPermissions,
-      fullContext
+      evaluationContext
     );
   }
 
+  /**
+   * Check a permission against permissions already loaded with
+   * getUserEffectivePermissions, synchronously. Effects, conditions and the
+   * combining algorithm apply as in hasPermission, but attribute providers
+   * and the resource resolver are not called: conditions only see `context`
+   */
+  evaluatePermission(
+    userId: string,
+    permission: P | UncheckedPermission,
+    permissions: ConditionalPermission[],
+    context?: Partial<PermissionContext>
+  ): PermissionResult {
+    const normalizedPermission = this.engine.normalizePermission(permission);
+    this.assertKnownPermission(normalizedPermission);
+
+    return this.engine.evaluatePermissions(normalizedPermission, permissions, {
+      userId,
+      timestamp: new Date(),
+      ...context
+    });
+  }
+
   /**
    * Check multiple permissions at once
    */
   async hasPermissions(
     userId: string,
-    permissions: Permission[],
+    permissions: (P | UncheckedPermission)[],
     context?: Partial<PermissionContext>
   ): Promise<Record<Permission, PermissionResult>> {
     const results: Record<Permission, PermissionResult> = {};
+    for (const permission of permissions) {
+      this.assertKnownPermission(this.engine.normalizePermission(permission));
+    }
     
     // Get user's effective permissions once
     const userPermissions = await this.getUserEffectivePermissions(userId);
@@ -77,18 +185,186 @@ export class RBAC {
       ...context
     };
 
+    // Provided attributes and resource ancestors are loaded at most once for the whole batch
+    const providedAttributes = new Map<string, Promise<ProvidedAttribute>>();
+    const resourceAncestors = new Map<string, Promise<string[]>>();
+
     for (const permission of permissions) {
       const normalizedPermission = this.engine.normalizePermission(permission);
+      const attributeContext = await this.resolveProvidedAttributes(
+        normalizedPermission,
+        userPermissions,
+        fullContext,
+        providedAttributes
+      );
+      const evaluationContext = await this.resolveResourceAncestors(
+        normalizedPermission,
+        userPermissions,
+        attributeContext,
+        resourceAncestors
+      );
       results[permission] = this.engine.evaluatePermissions(
         normalizedPermission,
         userPermissions,
-        fullContext
+        evaluationContext
       );
     }
 
     return results;
   }
 
+  /**
+   * Lazily load attributes from the configured attribute providers
+   * Only providers for attributes referenced by permissions matching the
+   * required permission are called, each at most once per `memo`
+   */
+  private async resolveProvidedAttributes(
+    permission: Permission,
+    userPermissions: ConditionalPermission[],
+    context: PermissionContext,
+    memo: Map<string, Promise<ProvidedAttribute>>
+  ): Promise<PermissionContext> {
+    const providers = this.attributeProviders;
+    if (Object.keys(providers).length === 0) {
+      return context;
+    }
+
+    const candidates = this.engine.getMatchingPermissions(permission, userPermissions);
+    const references = this.engine.getReferencedAttributes(candidates);
+
+    // Find the providers for references the caller did not supply
+    const targets = new Map<string, string>(); // provider key -> context path it fills
+    for (const reference of references) {
+      if (this.engine.getContextValue(reference, context) !== undefined) {
+        continue;
+      }
+
+      for (const key of Object.keys(providers)) {
+        const path = key.endsWith('.*') ? key.slice(0, -2) : key;
+        if (reference === path || reference.startsWith(path + '.')) {
+          targets.set(key, path);
+        }
+      }
+    }
+
+    let resolved = context;
+    for (const [key, path] of targets) {
+      if (!memo.has(key)) {
+        memo.set(key, this.callAttributeProvider(key, providers[key], context));
+      }
+
+      const provided = await memo.get(key);
+      if (provided?.failed) {
+        // Conditions on the missing attribute stay indeterminate: denies still apply
+        resolved = { ...resolved, unresolvedAttributes: [...(resolved.unresolvedAttributes || []), path] };
+        continue;
+      }
+
+      const value = provided?.value;
+      if (value === undefined) {
+        continue;
+      }
+
+      // Values supplied by the caller take precedence over provided ones
+      const existing = this.engine.getContextValue(path, resolved);
+      const merged = isPlainObject(value) && isPlainObject(existing)
+        ? { ...value, ...existing }
+        : existing ?? value;
+      resolved = setContextValue(resolved, path, merged);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Fill `resourceAncestors` through the resource resolver when a grant
+   * matching the required permission is bound to a resource. Resolver errors
+   * are rethrown, since missing ancestors could hide resource-bound denies
+   */
+  private async resolveResourceAncestors(
+    permission: Permission,
+    userPermissions: ConditionalPermission[],
+    context: PermissionContext,
+    memo: Map<string, Promise<string[]>>
+  ): Promise<PermissionContext> {
+    const resolver = this.config.resourceResolver;
+    const resource = context.resource;
+    if (!resolver || resource === undefined || context.resourceAncestors !== undefined) {
+      return context;
+    }
+
+    const bound = this.engine.getMatchingPermissions(permission, userPermissions).some(p => p.resource !== undefined);
+    if (!bound) {
+      return context;
+    }
+
+    if (!memo.has(resource)) {
+      memo.set(resource, Promise.resolve().then(() => resolver(resource, context)));
+    }
+
+    const ancestors = await memo.get(resource)!;
+    if (!Array.isArray(ancestors) || ancestors.some(ancestor => typeof ancestor !== 'string')) {
+      throw new Error(`Resource resolver must return an array of resource paths for ${resource}`);
+    }
+
+    return { ...context, resourceAncestors: ancestors };
+  }
+
+  /**
+   * Call an attribute provider with a timeout
+   * Failures and timeouts are reported as failed, so conditions on the
+   * attribute are indeterminate, except in strict mode where they are rethrown
+   */
+  private async callAttributeProvider(
+    key: string,
+    provider: AttributeProvider,
+    context: PermissionContext
+  ): Promise<ProvidedAttribute> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Attribute provider "${key}" timed out`)),
+        this.config.attributeProviderTimeout
+      );
+    });
+
+    try {
+      return { value: await Promise.race([Promise.resolve().then(() => provider(context, key)), timeout]) };
+    } catch (error) {
+      if (this.config.strictMode) {
+        throw error;
+      }
+      return { value: undefined, failed: true };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Load the user record exposed to conditions as `subject`
+   */
+  private async getSubject(userId: string): Promise<User | undefined> {
+    const cacheKey = `user_subject:${userId}`;
+
+    if (this.config.cacheEnabled) {
+      const cached = this.getFromCache<User>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const user = await this.connector.getUser(userId);
+    if (!user) {
+      return undefined;
+    }
+
+    if (this.config.cacheEnabled) {
+      this.setCache(cacheKey, user);
+    }
+
+    return user;
+  }
+
   /**
    * Get all effective permissions for a user (including from groups and roles)
    */
@@ -103,47 +379,320 @@ export class RBAC {
       }
     }
 
-    const permissions: ConditionalPermission[] = [];
+    const grants = await this.resolvePermissionGrants(userId);
+    const permissions = grants.map(grant => grant.permission);
+
+    // Cache the result
+    if (this.config.cacheEnabled) {
+      this.setCache(cacheKey, permissions);
+    }
+
+    return permissions;
+  }
+
+  /**
+   * Get all effective permissions for a user, each with its source
+   * (direct, role, or group with the chain of groups it was inherited through)
+   */
+  async getUserPermissionGrants(userId: string): Promise<PermissionGrant[]> {
+    const cacheKey = `user_grants:${userId}`;
+
+    if (this.config.cacheEnabled) {
+      const cached = this.getFromCache<PermissionGrant[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const grants = await this.resolvePermissionGrants(userId);
+
+    if (this.config.cacheEnabled) {
+      this.setCache(cacheKey, grants);
+    }
+
+    return grants;
+  }
+
+  /**
+   * Resolve a user's permissions together with where each one comes from
+   * Order: direct permissions, then roles, then groups (including nested groups)
+   */
+  private async resolvePermissionGrants(userId: string): Promise<PermissionGrant[]> {
+    const grants: PermissionGrant[] = [];
 
     // Get user assignment
     const assignment = await this.connector.getUserAssignment(userId);
-    if (!assignment) {
-      return permissions;
-    }
 
     // Add direct permissions
-    if (assignment.directPermissions) {
-      permissions.push(...assignment.directPermissions);
+    for (const permission of assignment?.directPermissions || []) {
+      grants.push({ permission, source: { type: 'direct', chain: [] } });
     }
 
-    // Add permissions from roles
-    for (const roleId of assignment.roleIds) {
+    // Add permissions from roles (including inherited roles)
+    for (const { role, chain } of await this.resolveRoles(assignment?.roleIds || [])) {
+      grants.push(...role.permissions.map(permission => ({
+        permission,
+        source: { type: 'role' as const, id: role.id, chain }
+      })));
+    }
+
+    // Add permissions from groups (including nested groups)
+    grants.push(...await this.getGroupPermissionGrants(await this.getMemberGroupIds(userId, assignment)));
+
+    // Grants written straight through the connector may not be normalized yet
+    return grants.map(grant => ({ ...grant, permission: this.normalizeStoredPermission(grant.permission) }));
+  }
+
+  /**
+   * Normalize the permission string of a stored grant, keeping the grant
+   * itself when it is already normalized
+   */
+  private normalizeStoredPermission(permission: ConditionalPermission): ConditionalPermission {
+    const normalized = normalizePermissionString(
+      permission.permission,
+      this.config.normalization,
+      this.getPermissionSeparator()
+    );
+    return normalized === permission.permission ? permission : { ...permission, permission: normalized };
+  }
+
+  /**
+   * Resolve roles and the roles they inherit, transitively
+   * Each role is returned once with its chain, e.g. ['role:viewer', 'role:editor']
+   * for viewer inherited by the assigned editor role; cycles are skipped
+   */
+  private async resolveRoles(roleIds: string[]): Promise<{ role: Role; chain: string[] }[]> {
+    const resolved: { role: Role; chain: string[] }[] = [];
+    const processedRoles = new Set<string>();
+
+    const processRole = async (roleId: string, childChain: string[]): Promise<void> => {
+      if (processedRoles.has(roleId)) {
+        return; // Avoid circular inheritance
+      }
+      processedRoles.add(roleId);
+
       const role = await this.connector.getRole(roleId);
-      if (role) {
-        permissions.push(...role.permissions);
+      if (!role) {
+        return;
       }
+
+      const chain = [`role:${roleId}`, ...childChain];
+      resolved.push({ role, chain });
+
+      for (const parentId of role.inherits || []) {
+        await processRole(parentId, chain);
+      }
+    };
+
+    for (const roleId of roleIds) {
+      await processRole(roleId, []);
     }
 
-    // Add permissions from groups (including nested groups)
-    const groupPermissions = await this.getGroupPermissions(assignment.groupIds);
-    permissions.push(...groupPermissions);
+    return resolved;
+  }
 
-    // Cache the result
+  /**
+   * Reject role inheritance that would form a cycle
+   */
+  private async assertNoRoleCycle(roleId: string, inherits: string[]): Promise<void> {
+    const visit = async (parentId: string, path: string[]): Promise<void> => {
+      if (parentId === roleId) {
+        throw new Error(`Role inheritance cycle: ${[...path, parentId].join(' -> ')}`);
+      }
+      if (path.includes(parentId)) {
+        return; // An existing cycle that does not involve this role
+      }
+
+      const parent = await this.connector.getRole(parentId);
+      for (const grandparentId of parent?.inherits || []) {
+        await visit(grandparentId, [...path, parentId]);
+      }
+    };
+
+    for (const parentId of inherits) {
+      await visit(parentId, [roleId]);
+    }
+  }
+
+  /**
+   * Reject group nesting that would create a cycle, or a chain of nested
+   * groups deeper than `maxGroupDepth` (counted like groupUtils.getGroupDepth:
+   * a group without nested groups has depth 0). The chain runs from the
+   * groups that nest this group, when the connector can look them up, down
+   * through the nested groups in `members`
+   */
+  private async assertValidGroupNesting(groupId: string, members: GroupMember[]): Promise<void> {
+    // Longest chain starting at a nested group, failing on a path back to this group
+    const below = async (id: string, path: string[]): Promise<string[]> => {
+      if (id === groupId) {
+        throw new Error(`Group nesting cycle: ${[...path, id].join(' -> ')}`);
+      }
+      if (path.includes(id)) {
+        return []; // An existing cycle that does not involve this group
+      }
+
+      const group = await this.connector.getGroup(id);
+      let longest: string[] = [];
+      for (const nestedId of group ? getNestedGroupIds(group) : []) {
+        const chain = await below(nestedId, [...path, id]);
+        if (chain.length > longest.length) {
+          longest = chain;
+        }
+      }
+      return [id, ...longest];
+    };
+
+    // Longest chain of groups nesting a group, outermost first
+    const above = async (id: string, path: string[]): Promise<string[]> => {
+      let longest: string[] = [];
+      for (const parent of await this.connector.getGroupsContainingMember?.(id, 'group') || []) {
+        if (parent.id === groupId || path.includes(parent.id)) {
+          continue; // Cycles through this group are reported from below
+        }
+        const chain = [...await above(parent.id, [...path, parent.id]), parent.id];
+        if (chain.length > longest.length) {
+          longest = chain;
+        }
+      }
+      return longest;
+    };
+
+    let longestBelow: string[] = [];
+    for (const nestedId of getNestedGroupIds({ members })) {
+      const chain = await below(nestedId, [groupId]);
+      if (chain.length > longestBelow.length) {
+        longestBelow = chain;
+      }
+    }
+
+    const maxDepth = this.config.maxGroupDepth;
+    if (maxDepth === undefined) {
+      return;
+    }
+
+    const chain = [...await above(groupId, [groupId]), groupId, ...longestBelow];
+    if (chain.length - 1 > maxDepth) {
+      throw new Error(`Group nesting too deep: ${chain.join(' -> ')} has depth ${chain.length - 1}, exceeding maxGroupDepth ${maxDepth}`);
+    }
+  }
+
+  /**
+   * Get the ids of the groups a user belongs to directly
+   * Membership is the union of `UserAssignment.groupIds`, the groups whose
+   * `members` list the user id (when the connector implements
+   * getGroupsContainingMember) and, with `membershipRules` enabled, the
+   * groups whose `membershipRule` matches the user record (when it implements
+   * getGroupsWithMembershipRule); nested groups are resolved from these
+   */
+  private async getMemberGroupIds(userId: string, assignment: UserAssignment | null): Promise<string[]> {
+    const groupIds = [...(assignment?.groupIds || [])];
+    const add = (groups: Group[]) => {
+      for (const group of groups) {
+        if (!groupIds.includes(group.id)) {
+          groupIds.push(group.id);
+        }
+      }
+    };
+
+    if (this.connector.getGroupsContainingMember) {
+      add(await this.connector.getGroupsContainingMember(userId));
+    }
+
+    if (this.config.membershipRules && this.connector.getGroupsWithMembershipRule) {
+      const ruleGroups = await this.getMembershipRuleGroups();
+      const user = ruleGroups.length > 0 ? await this.getSubject(userId) : undefined;
+      if (user) {
+        add(ruleGroups.filter(group => this.matchesMembershipRule(group, user)));
+      }
+    }
+
+    return groupIds;
+  }
+
+  /**
+   * List the groups with a membership rule, cached like user data
+   */
+  private async getMembershipRuleGroups(): Promise<Group[]> {
+    const cacheKey = 'membership_rule_groups';
     if (this.config.cacheEnabled) {
-      this.setCache(cacheKey, permissions);
+      const cached = this.getFromCache<Group[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
     }
 
-    return permissions;
+    const groups = await this.connector.getGroupsWithMembershipRule?.() || [];
+
+    if (this.config.cacheEnabled) {
+      this.setCache(cacheKey, groups);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Check a user record against a group's membership rule
+   * A rule that cannot be evaluated (e.g. an unknown operator written straight
+   * through the connector) matches no one, except in strict mode where it throws
+   */
+  private matchesMembershipRule(group: Group, user: User): boolean {
+    try {
+      return this.engine.evaluateMembershipRule(group.membershipRule || [], user);
+    } catch (error) {
+      if (this.config.strictMode) {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Precompute the members of a rule-based group, for connectors that cannot
+   * list rule groups: the given users whose record matches the group's
+   * `membershipRule` become its user members and get the group in their
+   * assignment's `groupIds`. Every previous user member not in `userIds` is
+   * dropped from both (nested groups are kept), so pass all candidate users in
+   * one call: calling it batch by batch keeps only the last batch.
+   * Returns the ids of the matching users
+   */
+  async materializeGroupMembership(groupId: string, userIds: string[]): Promise<string[]> {
+    const group = await this.connector.getGroup(groupId);
+    if (!group?.membershipRule) {
+      throw new Error(`Group ${groupId} has no membership rule to materialize`);
+    }
+
+    const matching: string[] = [];
+    for (const userId of userIds) {
+      const user = await this.connector.getUser(userId);
+      if (user && this.engine.evaluateMembershipRule(group.membershipRule, user)) {
+        matching.push(userId);
+      }
+    }
+
+    await this.connector.updateGroup(groupId, {
+      members: [...getNestedGroupIds(group).map(groupMember), ...matching.map(userMember)]
+    });
+
+    // Connectors without getGroupsContainingMember only see the assignment side
+    for (const userId of matching) {
+      await this.addUserToGroup(userId, groupId);
+    }
+    for (const userId of getMemberUserIds(group).filter(id => !matching.includes(id))) {
+      await this.removeUserFromGroup(userId, groupId);
+    }
+    this.clearCache();
+
+    return matching;
   }
 
   /**
    * Get permissions from groups (handles nested groups)
    */
-  private async getGroupPermissions(groupIds: string[]): Promise<ConditionalPermission[]> {
-    const permissions: ConditionalPermission[] = [];
+  private async getGroupPermissionGrants(groupIds: string[]): Promise<PermissionGrant[]> {
+    const grants: PermissionGrant[] = [];
     const processedGroups = new Set<string>();
 
-    const processGroup = async (groupId: string): Promise<void> => {
+    const processGroup = async (groupId: string, parentChain: string[]): Promise<void> => {
       if (processedGroups.has(groupId)) {
         return; // Avoid circular references
       }
@@ -155,27 +704,28 @@ export class RBAC {
       }
 
       // Add group's permissions
-      permissions.push(...group.permissions);
+      const chain = [`group:${groupId}`, ...parentChain];
+      grants.push(...group.permissions.map(permission => ({
+        permission,
+        source: { type: 'group' as const, id: groupId, chain }
+      })));
 
-      // Process nested groups
-      for (const member of group.members) {
-        if (typeof member === 'object' && 'id' in member) {
-          // It's a nested group
-          await processGroup(member.id);
-        }
+      // Process nested groups, following references through the connector
+      for (const nestedGroupId of getNestedGroupIds(group)) {
+        await processGroup(nestedGroupId, chain);
       }
     };
 
     // Process all groups
     for (const groupId of groupIds) {
-      await processGroup(groupId);
+      await processGroup(groupId, []);
     }
 
-    return permissions;
+    return grants;
   }
 
   /**
-   * Get user's roles
+   * Get user's roles (including inherited roles)
    */
   async getUserRoles(userId: string): Promise<Role[]> {
     const assignment = await this.connector.getUserAssignment(userId);
@@ -183,15 +733,7 @@ export class RBAC {
       return [];
     }
 
-    const roles: Role[] = [];
-    for (const roleId of assignment.roleIds) {
-      const role = await this.connector.getRole(roleId);
-      if (role) {
-        roles.push(role);
-      }
-    }
-
-    return roles;
+    return (await this.resolveRoles(assignment.roleIds)).map(({ role }) => role);
   }
 
   /**
@@ -199,9 +741,6 @@ export class RBAC {
    */
   async getUserGroups(userId: string): Promise<Group[]> {
     const assignment = await this.connector.getUserAssignment(userId);
-    if (!assignment) {
-      return [];
-    }
 
     const groups: Group[] = [];
     const processedGroups = new Set<string>();
@@ -220,20 +759,113 @@ export class RBAC {
       groups.push(group);
 
       // Process nested groups
-      for (const member of group.members) {
-        if (typeof member === 'object' && 'id' in member) {
-          await processGroup(member.id);
-        }
+      for (const nestedGroupId of getNestedGroupIds(group)) {
+        await processGroup(nestedGroupId);
       }
     };
 
-    for (const groupId of assignment.groupIds) {
+    for (const groupId of await this.getMemberGroupIds(userId, assignment)) {
       await processGroup(groupId);
     }
 
     return groups;
   }
 
+  /**
+   * Normalize and validate permissions before they are written
+   * In strict mode, permissions must also be registered in the catalog
+   */
+  private preparePermissions(permissions: ConditionalPermission[]): ConditionalPermission[] {
+    const normalized = normalizeConditionalPermissions(
+      permissions,
+      this.config.normalization,
+      this.getPermissionSeparator()
+    );
+    this.engine.validatePermissions(normalized);
+
+    if (this.config.strictMode && this.catalog) {
+      // Bound resources are not condition attributes
+      normalized.forEach(permission => this.catalog!.validate(
+        permission,
+        this.engine.getReferencedAttributes([{ ...permission, resource: undefined }])
+      ));
+    }
+
+    return normalized;
+  }
+
+  /**
+   * In strict mode, reject checks of permissions missing from the catalog
+   */
+  private assertKnownPermission(permission: Permission): void {
+    if (this.config.strictMode && this.catalog && !this.catalog.isKnown(permission)) {
+      throw new Error(this.catalog.unknownPermissionMessage(permission));
+    }
+  }
+
+  /**
+   * Create a role, normalizing and validating its permissions and rejecting inheritance cycles first
+   */
+  async createRole(role: Omit<Role, 'createdAt' | 'updatedAt'>): Promise<Role> {
+    await this.assertNoRoleCycle(role.id, role.inherits || []);
+    const created = await this.connector.createRole({ ...role, permissions: this.preparePermissions(role.permissions) });
+    this.clearCache();
+    return created;
+  }
+
+  /**
+   * Update a role, normalizing and validating any new permissions and rejecting inheritance cycles first
+   */
+  async updateRole(roleId: string, updates: Partial<Role>): Promise<Role> {
+    if (updates.inherits) {
+      await this.assertNoRoleCycle(roleId, updates.inherits);
+    }
+    if (updates.permissions) {
+      updates = { ...updates, permissions: this.preparePermissions(updates.permissions) };
+    }
+    const updated = await this.connector.updateRole(roleId, updates);
+    this.clearCache();
+    return updated;
+  }
+
+  /**
+   * Create a group, normalizing and validating its permissions, nesting and membership rule first
+   * Members are stored as typed references
+   */
+  async createGroup(group: Omit<Group, 'createdAt' | 'updatedAt'>): Promise<Group> {
+    await this.assertValidGroupNesting(group.id, group.members);
+    if (group.membershipRule) {
+      this.engine.validateMembershipRule(group.membershipRule, group.id);
+    }
+    const created = await this.connector.createGroup({
+      ...group,
+      members: toMemberRefs(group.members),
+      permissions: this.preparePermissions(group.permissions)
+    });
+    this.clearCache();
+    return created;
+  }
+
+  /**
+   * Update a group, normalizing and validating any new permissions, nesting and membership rule first
+   * Members are stored as typed references
+   */
+  async updateGroup(groupId: string, updates: Partial<Group>): Promise<Group> {
+    if (updates.permissions) {
+      updates = { ...updates, permissions: this.preparePermissions(updates.permissions) };
+    }
+    if (updates.members) {
+      await this.assertValidGroupNesting(groupId, updates.members);
+      updates = { ...updates, members: toMemberRefs(updates.members) };
+    }
+    if (updates.membershipRule) {
+      this.engine.validateMembershipRule(updates.membershipRule, groupId);
+    }
+    const updated = await this.connector.updateGroup(groupId, updates);
+    this.clearCache();
+    return updated;
+  }
+
   /**
    * Assign role to user
    */
@@ -304,15 +936,21 @@ export class RBAC {
    * Remove user from group
    */
   async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
-    const assignment = await this.connector.getUserAssignment(userId);
-    if (!assignment) {
-      return;
+    // Membership may be recorded on the group side as well
+    const group = await this.connector.getGroup(groupId);
+    if (group?.members.some(member => isMember(member, 'user', userId))) {
+      await this.connector.updateGroup(groupId, {
+        members: group.members.filter(member => !isMember(member, 'user', userId))
+      });
     }
 
-    const newGroupIds = assignment.groupIds.filter(id => id !== groupId);
-    await this.connector.updateUserAssignment(userId, {
-      groupIds: newGroupIds
-    });
+    const assignment = await this.connector.getUserAssignment(userId);
+    if (assignment) {
+      const newGroupIds = assignment.groupIds.filter(id => id !== groupId);
+      await this.connector.updateUserAssignment(userId, {
+        groupIds: newGroupIds
+      });
+    }
 
     this.clearUserCache(userId);
   }
@@ -321,6 +959,8 @@ export class RBAC {
    * Grant direct permission to user
    */
   async grantPermission(userId: string, permission: ConditionalPermission): Promise<void> {
+    [permission] = this.preparePermissions([permission]);
+
     let assignment = await this.connector.getUserAssignment(userId);
     
     if (!assignment) {
@@ -350,8 +990,10 @@ export class RBAC {
       return;
     }
 
+    // Also remove grants stored before normalization was applied
+    const normalized = normalizePermissionString(permission, this.config.normalization, this.getPermissionSeparator());
     const directPermissions = assignment.directPermissions.filter(
-      p => p.permission !== permission
+      p => p.permission !== permission && this.normalizeStoredPermission(p).permission !== normalized
     );
     
     await this.connector.updateUserAssignment(userId, {
@@ -384,9 +1026,9 @@ export class RBAC {
   }
 
   private clearUserCache(userId: string): void {
-    const prefix = `user_permissions:${userId}`;
+    const prefixes = [`user_permissions:${userId}`, `user_grants:${userId}`, `user_subject:${userId}`];
     for (const key of this.cache.keys()) {
-      if (key.startsWith(prefix)) {
+      if (prefixes.some(prefix => key.startsWith(prefix))) {
         this.cache.delete(key);
       }
     }
@@ -397,5 +1039,32 @@ export class RBAC {
    */
   clearCache(): void {
     this.cache.clear();
+    this.engine.clearPermissionIndexes();
   }
-}
\ No newline at end of file
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Return a copy of the context with a value set at a dot-notation path,
+ * copying objects along the path instead of mutating the caller's context
+ */
+function setContextValue(context: PermissionContext, path: string, value: unknown): PermissionContext {
+  const parts = path.split('.');
+  const root: PermissionContext & Record<string, unknown> = { ...context };
+  let current: Record<string, unknown> = root;
+
+  parts.forEach((part, index) => {
+    if (index === parts.length - 1) {
+      current[part] = value;
+    } else {
+      const child: Record<string, unknown> = isPlainObject(current[part]) ? { ...current[part] } : {};
+      current[part] = child;
+      current = child;
+    }
+  });
+
+  return root;
+}
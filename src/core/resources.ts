@@ -0,0 +1,22 @@
+/**
+ * Hierarchical resource paths such as `orgs/acme/projects/alpha/docs/42`
+ * A grant bound to a resource applies to the resource and everything below it
+ */
+
+function toSegments(resource: string): string[] {
+  return resource.split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Check whether a resource is an ancestor-or-self of another,
+ * comparing whole path segments (`orgs/acme` contains `orgs/acme/projects/alpha`,
+ * not `orgs/acme-labs`)
+ */
+export function isResourceWithin(resource: string, ancestor: string): boolean {
+  const segments = toSegments(resource);
+  const ancestorSegments = toSegments(ancestor);
+
+  return ancestorSegments.length > 0 &&
+         ancestorSegments.length <= segments.length &&
+         ancestorSegments.every((segment, index) => segment === segments[index]);
+}
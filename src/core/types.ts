@@ -6,18 +6,103 @@
 // Permission structure: service.resource.action or resource:action
 export type Permission = string;
 
+// Literal value a condition compares against
+export type ConditionValue = string | number | boolean | string[] | number[];
+
+// Point in time: a Date, an ISO 8601 string or epoch milliseconds
+export type ConditionDate = Date | string | number;
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Recurring time window, evaluated in the given IANA time zone
+export interface ScheduleWindow {
+  timeZone?: string; // Default: 'UTC', e.g. 'Europe/Berlin'
+  days?: Weekday[]; // Local days of the week a window starts on; all days when omitted
+  startTime?: string; // Local 'HH:mm', inclusive
+  endTime?: string; // Local 'HH:mm', exclusive; a window ending before it starts wraps past midnight
+  from?: ConditionDate; // Absolute start of the date range, inclusive
+  until?: ConditionDate; // Absolute end of the date range, exclusive
+}
+
+// Value type accepted by each condition operator
+// Custom operators registered through RBACConfig.operators can be typed by
+// augmenting this interface:
+//   declare module 'gatekeeper-rbac' {
+//     interface ConditionOperatorValues { tierAtLeast: 'free' | 'pro' | 'enterprise' }
+//   }
+export interface ConditionOperatorValues {
+  equals: ConditionValue;
+  notEquals: ConditionValue;
+  in: ConditionValue;
+  notIn: ConditionValue;
+  startsWith: ConditionValue;
+  endsWith: ConditionValue;
+  contains: ConditionValue;
+  greaterThan: ConditionValue; // Numbers, or dates when the attribute is a Date
+  lessThan: ConditionValue;
+  matches: string; // Regular expression source
+  between: [number, number] | [ConditionDate, ConditionDate]; // Inclusive range
+  exists: undefined;
+  notExists: undefined;
+  before: ConditionDate;
+  after: ConditionDate;
+  ipInCidr: string | string[]; // e.g. '10.0.0.0/8' or ['10.0.0.0/8', '2001:db8::/32']
+  arrayContains: string | number | boolean;
+  arrayIntersects: string[] | number[];
+  withinSchedule: ScheduleWindow | ScheduleWindow[]; // Matches when any window matches
+}
+
+export type ConditionOperator = keyof ConditionOperatorValues;
+
+// Right-hand side of a condition: a literal value or a reference to another
+// context attribute (e.g. `valueFrom: 'userId'` or `'attributes.resource.department'`)
+export type ConditionOperand<V> =
+  | (undefined extends V
+      ? { value?: V; valueFrom?: undefined }
+      : { value: V; valueFrom?: undefined })
+  | { valueFrom: string; value?: undefined };
+
 // Condition for conditional permissions (similar to Google IAM conditions)
 export interface PermissionCondition {
   attribute: string;
-  operator: 'equals' | 'notEquals' | 'in' | 'notIn' | 'startsWith' | 'endsWith' | 'contains' | 'greaterThan' | 'lessThan';
-  value: string | number | boolean | string[] | number[];
+  operator: ConditionOperator;
+  value?: ConditionOperatorValues[ConditionOperator]; // Omitted for `exists` / `notExists` and with `valueFrom`
+  valueFrom?: string;
+}
+
+// Stricter condition type that checks `value` against its operator, e.g.
+// `between` requires a [min, max] pair. Assignable to PermissionCondition
+export type TypedPermissionCondition = {
+  [K in ConditionOperator]: {
+    attribute: string;
+    operator: K;
+  } & ConditionOperand<ConditionOperatorValues[K]>
+}[ConditionOperator];
+
+// Boolean combinators for building condition trees
+export interface AllOfCondition {
+  allOf: ConditionNode[];
+}
+
+export interface AnyOfCondition {
+  anyOf: ConditionNode[];
 }
 
+export interface NotCondition {
+  not: ConditionNode;
+}
+
+// A node in a condition tree: a leaf condition or a boolean combinator
+export type ConditionNode = PermissionCondition | AllOfCondition | AnyOfCondition | NotCondition;
+
 // A permission with optional conditions
 export interface ConditionalPermission {
   permission: Permission;
-  conditions?: PermissionCondition[];
+  conditions?: ConditionNode[]; // Implicit allOf
+  expression?: string; // IAM-style expression, ANDed with conditions
   effect?: 'allow' | 'deny'; // Default is 'allow'
+  priority?: number; // Used by the 'priority' combining algorithm, higher wins (default 0)
+  resource?: string; // Bind the grant to a resource path and everything below it, e.g. 'orgs/acme'
 }
 
 // User entity
@@ -30,12 +115,22 @@ export interface User {
   updatedAt: Date;
 }
 
+// Reference to a user or nested group in Group.members
+export interface GroupMemberRef {
+  type: 'user' | 'group';
+  id: string;
+}
+
+// Bare user IDs and embedded Groups are legacy member forms
+export type GroupMember = GroupMemberRef | string | Group;
+
 // Group can contain users and other groups (nested structure)
 export interface Group {
   id: string;
   name: string;
   description?: string;
-  members: (string | Group)[]; // User IDs or nested Groups
+  members: GroupMember[]; // References to users and nested groups
+  membershipRule?: ConditionNode[]; // Implicit allOf over the User record, e.g. `metadata.department`
   permissions: ConditionalPermission[];
   metadata?: Record<string, any>;
   createdAt: Date;
@@ -48,6 +143,7 @@ export interface Role {
   name: string;
   description?: string;
   permissions: ConditionalPermission[];
+  inherits?: string[]; // Parent role ids whose permissions this role includes
   metadata?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
@@ -83,6 +179,9 @@ export interface PermissionContext {
   action?: string;
   attributes?: Record<string, any>; // For condition evaluation
   timestamp?: Date;
+  subject?: Record<string, unknown>; // The checked user, loaded when `subjectAttributes` is enabled
+  resourceAncestors?: string[]; // Ancestors of `resource`, filled by the resource resolver
+  unresolvedAttributes?: string[]; // Paths whose attribute provider failed; conditions on them are indeterminate
 }
 
 // Permission check result
@@ -91,6 +190,62 @@ export interface PermissionResult {
   reason?: string;
   matchedPermissions?: ConditionalPermission[];
   deniedBy?: ConditionalPermission[];
+  trace?: DecisionTrace; // Only with `explain: true`
+}
+
+// Where a user's permission comes from
+export interface PermissionSource {
+  type: 'direct' | 'role' | 'group';
+  id?: string; // Role or group id, absent for direct permissions
+  // `type:id` references from the granting source up to what is assigned to the user,
+  // e.g. ['group:backend-team', 'group:it-dept'] (empty for direct permissions)
+  chain: string[];
+}
+
+// A permission together with its source
+export interface PermissionGrant {
+  permission: ConditionalPermission;
+  source: PermissionSource;
+}
+
+// Options for a single permission check
+export interface PermissionCheckOptions {
+  explain?: boolean; // Attach a DecisionTrace to the result
+}
+
+// Outcome of one node of a condition tree
+export type ConditionTrace =
+  | {
+      type: 'condition';
+      condition: PermissionCondition;
+      left: unknown; // Resolved attribute value
+      right: unknown; // Resolved `value` / `valueFrom`
+      outcome: boolean;
+      indeterminate?: true; // Set (with outcome false) when a placeholder could not be resolved
+    }
+  | { type: 'allOf' | 'anyOf'; outcome: boolean; indeterminate?: true; children: ConditionTrace[] }
+  | { type: 'not'; outcome: boolean; indeterminate?: true; child: ConditionTrace };
+
+// How one of the user's permissions was evaluated
+export interface CandidateTrace {
+  permission: ConditionalPermission;
+  source?: PermissionSource;
+  effect: 'allow' | 'deny';
+  patternMatched: boolean;
+  resourceMatched?: boolean; // Set for grants bound to a resource
+  conditions?: ConditionTrace[]; // Only evaluated when the pattern (and resource) matched
+  expression?: { expression: string; outcome: boolean; indeterminate?: true; error?: string }; // Errors are indeterminate
+  applicable: boolean; // Pattern, resource, conditions and expression all matched
+  considered: boolean; // False when the combining algorithm had already decided
+}
+
+// Structured explanation of a permission check
+export interface DecisionTrace {
+  permission: Permission; // Normalized required permission
+  combiningAlgorithm: CombiningAlgorithm;
+  candidates: CandidateTrace[];
+  decidedBy: ConditionalPermission[];
+  rule: string; // Which combining rule produced the decision
 }
 
 // Database connector interface
@@ -107,6 +262,11 @@ export interface DatabaseConnector {
   updateGroup(groupId: string, updates: Partial<Group>): Promise<Group>;
   deleteGroup(groupId: string): Promise<void>;
   getGroupsByUserId(userId: string): Promise<Group[]>;
+  // Groups whose `members` list the user (default) or group directly; enables membership
+  // from the group side and depth checks on group nesting writes
+  getGroupsContainingMember?(memberId: string, type?: GroupMemberRef['type']): Promise<Group[]>;
+  // Groups with a `membershipRule`, evaluated against the user when resolving membership
+  getGroupsWithMembershipRule?(): Promise<Group[]>;
 
   // Role operations
   getRole(roleId: string): Promise<Role | null>;
@@ -128,6 +288,82 @@ export interface DatabaseConnector {
   listTemplates(): Promise<PermissionTemplate[]>;
 }
 
+// A permission separator, or an object exposing one such as an RBAC instance
+export type PermissionSeparatorSource = string | { getPermissionSeparator(): string };
+
+// Custom condition operator, looked up by name when a condition is evaluated
+export interface ConditionOperatorDefinition<V = unknown> {
+  // Compare the attribute value (never null or undefined) with the condition value
+  evaluate(attributeValue: unknown, value: V, context: PermissionContext): boolean;
+  // Checked when permissions are written; return false to reject the value
+  validateValue?(value: unknown): boolean;
+}
+
+// Function callable from condition expressions, either globally (`size(x)`) or
+// as a method on a value (`x.size()`), in which case the target is the first argument.
+// Parameters may be typed freely: arguments are whatever the expression evaluates to
+export type ExpressionFunction = (...args: never[]) => unknown;
+
+// Loads an attribute that is not part of the request context, e.g. from a
+// database or another service. Called with the check context and the
+// provider key it was registered under.
+export type AttributeProvider = (context: PermissionContext, key: string) => unknown | Promise<unknown>;
+
+// How the effects of several applicable permissions are combined into one decision
+// - deny-overrides: any deny wins over any allow (default)
+// - permit-overrides: any allow wins over any deny
+// - first-applicable: the first applicable permission decides (direct, then roles, then groups)
+// - priority: the highest `priority` decides, deny-overrides among equal priorities
+export type CombiningAlgorithm = 'deny-overrides' | 'permit-overrides' | 'first-applicable' | 'priority';
+
+// Permission catalog: resources with their actions, e.g.
+// { invoice: { actions: { read: 'Read invoices', export: { conditionAttributes: ['attributes.region'] } } } }
+export interface PermissionActionDefinition {
+  description?: string;
+  conditionAttributes?: readonly string[]; // Attributes conditions may compare; any when omitted
+}
+
+export interface PermissionResourceDefinition {
+  description?: string;
+  actions: Record<string, string | PermissionActionDefinition>; // A string is the description
+  conditionAttributes?: readonly string[]; // Allowed for every action of the resource
+}
+
+export type PermissionCatalogDefinition = Record<string, PermissionResourceDefinition>;
+
+type CatalogResource<C> = keyof C & string;
+type CatalogAction<C, R extends keyof C> = C[R] extends { actions: infer A } ? keyof A & string : never;
+
+// Permission strings registered in a catalog, e.g. 'invoice.read' | 'invoice.export'
+export type CatalogPermission<C extends PermissionCatalogDefinition, S extends string = '.'> = {
+  [R in CatalogResource<C>]: `${R}${S}${CatalogAction<C, R>}`;
+}[CatalogResource<C>];
+
+// Catalog permissions plus the wildcard patterns that match them
+export type CatalogPermissionPattern<C extends PermissionCatalogDefinition, S extends string = '.'> =
+  | CatalogPermission<C, S>
+  | `${CatalogResource<C>}${S}*`
+  | `${CatalogResource<C>}${S}**`
+  | `*${S}${{ [R in CatalogResource<C>]: CatalogAction<C, R> }[CatalogResource<C>]}`
+  | '*';
+
+// Escape hatch for permissions built at runtime; see uncheckedPermission()
+export type UncheckedPermission = string & { readonly __unchecked: true };
+
+// Supplies the ancestors of a resource whose path is not known up front,
+// e.g. 'docs/42' -> ['orgs/acme/projects/alpha', 'orgs/acme']
+export type ResourceResolver = (resource: string, context: PermissionContext) => string[] | Promise<string[]>;
+
+// Actions each action implies, e.g. { manage: ['update'], update: ['read'] }
+export type ActionHierarchy = Record<string, string[]>;
+
+// How permission strings are normalized when they are written and checked
+export interface PermissionNormalization {
+  caseSensitive?: boolean; // Default: false (permissions are lowercased)
+  trim?: boolean; // Default: true (whitespace around segments is removed)
+  collapseEmptySegments?: boolean; // Default: true ('users..read' becomes 'users.read')
+}
+
 // Configuration for the RBAC system
 export interface RBACConfig {
   connector: DatabaseConnector;
@@ -136,6 +372,20 @@ export interface RBACConfig {
   cacheEnabled?: boolean; // Default: false
   cacheTTL?: number; // Default: 300 seconds
   strictMode?: boolean; // Default: false (allows undefined permissions)
+  normalization?: PermissionNormalization; // Applied to written grants and checked permissions
+  catalog?: PermissionCatalogDefinition; // Known permissions; enforced in strict mode
+  combiningAlgorithm?: CombiningAlgorithm; // Default: 'deny-overrides'
+  actionHierarchy?: ActionHierarchy; // Implied actions, e.g. defaultActionHierarchy; off by default
+  resourceResolver?: ResourceResolver; // Called for resource-bound grants when `resourceAncestors` is not given
+  maxGroupDepth?: number; // Default: 10 nesting levels, enforced by RBAC group writes
+  membershipRules?: boolean; // Evaluate Group.membershipRule in checks via getGroupsWithMembershipRule; default false
+  operators?: Record<string, ConditionOperatorDefinition>; // Custom condition operators
+  functions?: Record<string, ExpressionFunction>; // Custom expression functions
+  // Keyed by context path: 'subject.plan' provides that value, 'attributes.resource.*'
+  // provides the whole object at 'attributes.resource'
+  attributeProviders?: Record<string, AttributeProvider>;
+  attributeProviderTimeout?: number; // Default: 1000 ms
+  subjectAttributes?: boolean; // Load the User record as `subject.*` when conditions reference it
 }
 
 // NextAuth integration types
@@ -149,6 +399,8 @@ export interface NextAuthUser {
 export interface NextAuthSession {
   user: NextAuthUser;
   permissions?: Permission[];
+  permissionSources?: Record<Permission, string[]>; // e.g. { 'apis.*': ['group:backend-team <- group:it-dept'] }
+  permissionSeparator?: string; // Set when the RBAC separator is not '.'
   roles?: string[];
   groups?: string[];
   expires: string;
@@ -159,6 +411,8 @@ export interface NextAuthToken {
   email?: string;
   name?: string;
   permissions?: Permission[];
+  permissionSources?: Record<Permission, string[]>;
+  permissionSeparator?: string;
   roles?: string[];
   groups?: string[];
 }
\ No newline at end of file
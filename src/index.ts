@@ -14,6 +14,15 @@
 // Core exports
 export { RBAC } from './core/rbac';
 export { PermissionEngine } from './core/permission-engine';
+export { PermissionCatalog, defineCatalog, uncheckedPermission } from './core/catalog';
+export { matchesPermissionPattern, PermissionIndex } from './core/matcher';
+export { normalizePermissionString, normalizeConditionalPermissions, resolvePermissionSeparator } from './core/normalization';
+export { defaultActionHierarchy, getImplyingActions } from './core/actions';
+export { isResourceWithin } from './core/resources';
+export { userMember, groupMember, toMemberRef, toMemberRefs, getMemberUserIds, getNestedGroupIds } from './core/members';
+export type { CatalogEntry } from './core/catalog';
+export { parseExpression, evaluateExpression } from './core/expression';
+export type { ExpressionNode } from './core/expression';
 
 // Alias for better DX - users expect "Gatekeeper" class
 export { RBAC as Gatekeeper } from './core/rbac';
@@ -21,7 +30,7 @@ export { RBAC as Gatekeeper } from './core/rbac';
 // Import for factory function and default export
 import { RBAC } from './core/rbac';
 import { PermissionEngine } from './core/permission-engine';
-import { RBACConfig } from './core/types';
+import { RBACConfig, PermissionCatalogDefinition, CatalogPermissionPattern } from './core/types';
 import { FirebaseConnector, createFirebaseConnector } from './connectors/firebase';
 import { createGatekeeperCallbacks } from './nextauth';
 import { createTemplateManager } from './templates';
@@ -32,6 +41,38 @@ export type {
   Permission,
   ConditionalPermission,
   PermissionCondition,
+  TypedPermissionCondition,
+  ConditionOperator,
+  ConditionOperatorValues,
+  ConditionOperand,
+  ConditionValue,
+  ConditionDate,
+  ScheduleWindow,
+  Weekday,
+  ConditionOperatorDefinition,
+  ExpressionFunction,
+  AttributeProvider,
+  CombiningAlgorithm,
+  ActionHierarchy,
+  ResourceResolver,
+  PermissionNormalization,
+  PermissionSeparatorSource,
+  PermissionCatalogDefinition,
+  PermissionResourceDefinition,
+  PermissionActionDefinition,
+  CatalogPermission,
+  CatalogPermissionPattern,
+  UncheckedPermission,
+  PermissionSource,
+  PermissionGrant,
+  PermissionCheckOptions,
+  DecisionTrace,
+  CandidateTrace,
+  ConditionTrace,
+  ConditionNode,
+  AllOfCondition,
+  AnyOfCondition,
+  NotCondition,
   PermissionContext,
   PermissionResult,
   RBACConfig,
@@ -39,6 +80,8 @@ export type {
   // Entity types
   User,
   Group,
+  GroupMember,
+  GroupMemberRef,
   Role,
   UserAssignment,
   PermissionTemplate,
@@ -77,6 +120,9 @@ export {
   commonPermissions,
   roleTemplates,
   groupTemplates,
+  createCommonPermissions,
+  createRoleTemplates,
+  createGroupTemplates,
   PermissionTemplateBuilder,
   TemplateManager,
   createTemplateManager,
@@ -86,6 +132,7 @@ export {
 // Utilities
 export {
   permissionUtils,
+  createPermissionUtils,
   groupUtils,
   validationUtils,
   queryUtils,
@@ -101,6 +148,10 @@ export { GatekeeperNextAuthConfig } from './nextauth';
 /**
  * Quick start factory function
  */
+export function createGatekeeper<C extends PermissionCatalogDefinition, S extends string = '.'>(
+  config: RBACConfig & { catalog: C; permissionSeparator?: S }
+): RBAC<CatalogPermissionPattern<C, S>>;
+export function createGatekeeper(config: RBACConfig): RBAC;
 export function createGatekeeper(config: RBACConfig): RBAC {
   return new RBAC(config);
 }
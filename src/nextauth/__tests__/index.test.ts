@@ -12,8 +12,10 @@ import { RBAC } from '../../core/rbac';
 const mockRBAC = {
   hasPermission: jest.fn(),
   getUserEffectivePermissions: jest.fn(),
+  getUserPermissionGrants: jest.fn(),
   getUserRoles: jest.fn(),
   getUserGroups: jest.fn(),
+  getPermissionSeparator: () => '.',
   connector: {
     getUser: jest.fn(),
     createUser: jest.fn(),
@@ -118,6 +120,74 @@ describe('NextAuth Integration', () => {
 
         expect(mockRBAC.getUserEffectivePermissions).not.toHaveBeenCalled();
       });
+
+      it('should include permission sources when enabled', async () => {
+        mockRBAC.getUserPermissionGrants.mockResolvedValue([
+          { permission: { permission: 'apis.*' }, source: { type: 'group', id: 'backend-team', chain: ['group:backend-team', 'group:it-dept'] } },
+          { permission: { permission: 'apis.*' }, source: { type: 'direct', chain: [] } },
+          { permission: { permission: 'code.read' }, source: { type: 'role', id: 'engineer', chain: ['role:engineer'] } }
+        ]);
+        mockRBAC.getUserRoles.mockResolvedValue([]);
+        mockRBAC.getUserGroups.mockResolvedValue([]);
+
+        const callbacks = createGatekeeperCallbacks({ ...config, includePermissionSourcesInSession: true });
+        const result = await callbacks.jwt({ token: {}, user: { id: 'user-123' } });
+
+        expect(result.permissions).toEqual(['apis.*', 'code.read']);
+        expect(result.permissionSources).toEqual({
+          'apis.*': ['group:backend-team <- group:it-dept', 'direct'],
+          'code.read': ['role:engineer']
+        });
+        expect(mockRBAC.getUserEffectivePermissions).not.toHaveBeenCalled();
+      });
+
+      it('should filter session permissions by source', async () => {
+        mockRBAC.getUserPermissionGrants.mockResolvedValue([
+          { permission: { permission: 'apis.*' }, source: { type: 'group', id: 'backend-team', chain: ['group:backend-team'] } },
+          { permission: { permission: 'code.read' }, source: { type: 'role', id: 'engineer', chain: ['role:engineer'] } }
+        ]);
+        mockRBAC.getUserRoles.mockResolvedValue([]);
+        mockRBAC.getUserGroups.mockResolvedValue([]);
+
+        const callbacks = createGatekeeperCallbacks({
+          ...config,
+          permissionSourceFilter: grant => grant.source.type === 'role'
+        });
+        const result = await callbacks.jwt({ token: {}, user: { id: 'user-123' } });
+
+        expect(result.permissions).toEqual(['code.read']);
+        expect(result.permissionSources).toBeUndefined();
+      });
+
+      it('should leave deny grants out of session permissions', async () => {
+        mockRBAC.getUserEffectivePermissions.mockResolvedValue([
+          { permission: 'reports.*', effect: 'deny' },
+          { permission: 'users.read' }
+        ]);
+        mockRBAC.getUserRoles.mockResolvedValue([]);
+        mockRBAC.getUserGroups.mockResolvedValue([]);
+
+        const callbacks = createGatekeeperCallbacks(config);
+        const result = await callbacks.jwt({ token: {}, user: { id: 'user-123' } });
+
+        expect(result.permissions).toEqual(['users.read']);
+      });
+
+      it('should carry a custom permission separator to the session', async () => {
+        mockRBAC.getUserEffectivePermissions.mockResolvedValue([{ permission: 'users:*' }]);
+        mockRBAC.getUserRoles.mockResolvedValue([]);
+        mockRBAC.getUserGroups.mockResolvedValue([]);
+
+        const callbacks = createGatekeeperCallbacks({
+          ...config,
+          rbac: { ...mockRBAC, getPermissionSeparator: () => ':' }
+        });
+        const token = await callbacks.jwt({ token: {}, user: { id: 'user-123' } }) as any;
+        const session = await callbacks.session({ session: { user: {}, expires: '2024-12-31' }, token }) as any;
+
+        expect(token.permissionSeparator).toBe(':');
+        expect(session.permissionSeparator).toBe(':');
+      });
     });
 
     describe('session callback', () => {
@@ -130,6 +200,7 @@ describe('NextAuth Integration', () => {
         const token = {
           sub: 'user-123',
           permissions: ['users.read'],
+          permissionSources: { 'users.read': ['role:admin'] },
           roles: ['admin'],
           groups: ['group1']
         };
@@ -138,6 +209,7 @@ describe('NextAuth Integration', () => {
 
         expect(result.user.id).toBe('user-123');
         expect(result.permissions).toEqual(['users.read']);
+        expect(result.permissionSources).toEqual({ 'users.read': ['role:admin'] });
         expect(result.roles).toEqual(['admin']);
         expect(result.groups).toEqual(['group1']);
       });
@@ -209,6 +281,40 @@ describe('NextAuth Integration', () => {
       expect(inAnyGroup(['group2', 'group3'])).toBe(false);
     });
 
+    it('should match wildcard permissions like the engine', () => {
+      mockUseSession.mockReturnValue({
+        data: {
+          user: { id: 'user-123' },
+          permissions: ['users.*', 'reports.**', 'invoices.q*'],
+          expires: '2024-12-31'
+        }
+      });
+
+      const { hasPermission } = useGatekeeperPermissions();
+
+      expect(hasPermission('users.read')).toBe(true);
+      expect(hasPermission('users.admin.read')).toBe(false);
+      expect(hasPermission('reports.finance.q3.read')).toBe(true);
+      expect(hasPermission('invoices.q3')).toBe(true);
+      expect(hasPermission('invoices.annual')).toBe(false);
+    });
+
+    it('should match with the session permission separator', () => {
+      mockUseSession.mockReturnValue({
+        data: {
+          user: { id: 'user-123' },
+          permissions: ['users:*'],
+          permissionSeparator: ':',
+          expires: '2024-12-31'
+        }
+      });
+
+      const { hasPermission } = useGatekeeperPermissions();
+
+      expect(hasPermission('users:read')).toBe(true);
+      expect(hasPermission('users:admin:read')).toBe(false);
+    });
+
     it('should handle null session', () => {
       mockUseSession.mockReturnValue({ data: null });
 
@@ -1,4 +1,5 @@
 import { createNextjsMiddleware, getServerPermissions, getServerSidePermissions, withPermissions, requireAuth } from '../index';
+import { PermissionEngine } from '../../core/permission-engine';
 
 // Mock NextAuth modules
 jest.mock('next-auth/jwt', () => ({
@@ -25,11 +26,16 @@ jest.mock('react', () => ({
   createElement: jest.fn((type, props, ...children) => ({ type, props, children }))
 }));
 
-// Mock RBAC
+// Mock RBAC, evaluating loaded permissions with a real engine
+const engine = new PermissionEngine({ connector: {} as any });
 const mockRbac = {
   hasPermission: jest.fn(),
+  evaluatePermission: jest.fn((userId: string, permission: string, permissions: any[], context?: any) =>
+    engine.evaluatePermissions(permission, permissions, { userId, timestamp: new Date(), ...context })
+  ),
   getUserEffectivePermissions: jest.fn(),
-  getUserRoles: jest.fn()
+  getUserRoles: jest.fn(),
+  getPermissionSeparator: () => '.'
 };
 
 // Mock connector
@@ -177,6 +183,28 @@ describe('NextAuth Utilities', () => {
       expect(result.hasRole('user')).toBe(false);
     });
 
+    it('should apply deny grants and conditions', async () => {
+      const { getServerSession } = require('next-auth/next');
+
+      getServerSession.mockResolvedValue({
+        user: { id: 'user-123' }
+      });
+
+      mockRbac.getUserEffectivePermissions.mockResolvedValue([
+        { permission: 'reports.*', effect: 'deny' },
+        { permission: 'docs.read', conditions: [{ attribute: 'user.department', operator: 'equals', value: 'legal' }] }
+      ]);
+
+      mockRbac.getUserRoles.mockResolvedValue([]);
+
+      const result = await getServerPermissions(mockRbac as any);
+
+      expect(result.permissions).toEqual(['docs.read']);
+      expect(result.hasPermission('reports.read')).toBe(false);
+      expect(result.hasPermission('docs.read')).toBe(false);
+      expect(result.hasPermission('docs.read', { user: { department: 'legal' } } as any)).toBe(true);
+    });
+
     it('should return unauthenticated state when no session', async () => {
       const { getServerSession } = require('next-auth/next');
       
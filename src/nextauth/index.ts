@@ -5,7 +5,17 @@ import type { NextRequest } from 'next/server';
 import type { GetServerSidePropsContext } from 'next';
 import type { ComponentType } from 'react';
 import { RBAC } from '../core/rbac';
-import { Permission, NextAuthSession, NextAuthToken } from '../core/types';
+import {
+  ConditionalPermission,
+  Permission,
+  PermissionContext,
+  PermissionGrant,
+  NextAuthSession,
+  NextAuthToken,
+  UncheckedPermission
+} from '../core/types';
+import { debugUtils } from '../utils';
+import { matchesPermissionPattern } from '../core/matcher';
 
 // Cached React imports for performance
 let cachedUseSession: any = null;
@@ -62,6 +72,11 @@ function getReact(): ReactLike {
   return cachedReact; // Fallback assignment above ensures this is never null
 }
 
+// Sessions only carry allow grants: a session check has no way to apply a deny
+function isAllowGrant(permission: ConditionalPermission): boolean {
+  return permission.effect !== 'deny';
+}
+
 /**
  * NextAuth integration for Gatekeeper RBAC
  * Provides callbacks and utilities for seamless integration
@@ -70,6 +85,8 @@ function getReact(): ReactLike {
 export interface GatekeeperNextAuthConfig {
   rbac: RBAC;
   includePermissionsInSession?: boolean;
+  includePermissionSourcesInSession?: boolean; // Adds `permissionSources`, default false
+  permissionSourceFilter?: (grant: PermissionGrant) => boolean; // Only include matching grants
   includeRolesInSession?: boolean;
   includeGroupsInSession?: boolean;
 }
@@ -96,6 +113,8 @@ export function createGatekeeperCallbacks(config: GatekeeperNextAuthConfig) {
   const {
     rbac,
     includePermissionsInSession = true,
+    includePermissionSourcesInSession = false,
+    permissionSourceFilter,
     includeRolesInSession = true,
     includeGroupsInSession = true
   } = config;
@@ -111,9 +130,32 @@ export function createGatekeeperCallbacks(config: GatekeeperNextAuthConfig) {
 
         try {
           // Get user's permissions, roles, and groups
-          if (includePermissionsInSession) {
+          if (includePermissionSourcesInSession || permissionSourceFilter) {
+            const grants = (await rbac.getUserPermissionGrants(user.id))
+              .filter(grant => isAllowGrant(grant.permission))
+              .filter(grant => !permissionSourceFilter || permissionSourceFilter(grant));
+
+            if (includePermissionsInSession) {
+              gatekeeperToken.permissions = [...new Set(grants.map(g => g.permission.permission))];
+            }
+
+            if (includePermissionSourcesInSession) {
+              const sources: Record<Permission, string[]> = {};
+              for (const grant of grants) {
+                const permission = grant.permission.permission;
+                sources[permission] = [...(sources[permission] || []), debugUtils.formatPermissionSource(grant.source)];
+              }
+              gatekeeperToken.permissionSources = sources;
+            }
+          } else if (includePermissionsInSession) {
             const permissions = await rbac.getUserEffectivePermissions(user.id);
-            gatekeeperToken.permissions = permissions.map(p => p.permission);
+            gatekeeperToken.permissions = permissions.filter(isAllowGrant).map(p => p.permission);
+          }
+
+          // Client-side checks match session permissions with the RBAC separator
+          const separator = rbac.getPermissionSeparator();
+          if (gatekeeperToken.permissions && separator !== '.') {
+            gatekeeperToken.permissionSeparator = separator;
           }
 
           if (includeRolesInSession) {
@@ -144,6 +186,14 @@ export function createGatekeeperCallbacks(config: GatekeeperNextAuthConfig) {
           gatekeeperSession.permissions = gatekeeperToken.permissions;
         }
 
+        if (gatekeeperToken.permissionSources) {
+          gatekeeperSession.permissionSources = gatekeeperToken.permissionSources;
+        }
+
+        if (gatekeeperToken.permissionSeparator) {
+          gatekeeperSession.permissionSeparator = gatekeeperToken.permissionSeparator;
+        }
+
         if (gatekeeperToken.roles) {
           gatekeeperSession.roles = gatekeeperToken.roles;
         }
@@ -160,11 +210,12 @@ export function createGatekeeperCallbacks(config: GatekeeperNextAuthConfig) {
 
 /**
  * Higher-order component for protecting pages with permissions
- * Note: This function returns a React component and should be used in .tsx files
+ * Note: This function returns a React component and should be used in .tsx files.
+ * Checks session.permissions (allow grants only, conditions not applied); enforce on the server
  */
-export function withPermission<P extends Record<string, unknown>>(
+export function withPermission<P extends Record<string, unknown>, TPermission extends string = Permission>(
   Component: any,
-  requiredPermission: Permission,
+  requiredPermission: TPermission | UncheckedPermission,
   options?: {
     fallback?: any;
     redirectTo?: string;
@@ -194,7 +245,9 @@ export function withPermission<P extends Record<string, unknown>>(
     }
 
     const gatekeeperSession = session as NextAuthSession;
-    const hasPermission = gatekeeperSession.permissions?.includes(requiredPermission) || false;
+    const hasPermission = gatekeeperSession.permissions?.some(granted =>
+      matchesPermissionPattern(requiredPermission, granted, gatekeeperSession.permissionSeparator)
+    ) || false;
 
     if (!hasPermission) {
       return options?.fallback 
@@ -208,21 +261,24 @@ export function withPermission<P extends Record<string, unknown>>(
 
 /**
  * Hook for checking permissions in React components
+ * Checks session.permissions (allow grants only, conditions not applied); enforce on the server
  */
-export function useGatekeeperPermissions() {
+export function useGatekeeperPermissions<TPermission extends string = Permission>() {
   const { useSession } = require('next-auth/react');
   const { data: session } = useSession();
   const gatekeeperSession = session as NextAuthSession | null;
 
-  const hasPermission = (permission: Permission): boolean => {
-    return gatekeeperSession?.permissions?.includes(permission) || false;
+  const hasPermission = (permission: TPermission | UncheckedPermission): boolean => {
+    return gatekeeperSession?.permissions?.some(granted =>
+      matchesPermissionPattern(permission, granted, gatekeeperSession.permissionSeparator)
+    ) || false;
   };
 
-  const hasAnyPermission = (permissions: Permission[]): boolean => {
+  const hasAnyPermission = (permissions: (TPermission | UncheckedPermission)[]): boolean => {
     return permissions.some(permission => hasPermission(permission));
   };
 
-  const hasAllPermissions = (permissions: Permission[]): boolean => {
+  const hasAllPermissions = (permissions: (TPermission | UncheckedPermission)[]): boolean => {
     return permissions.every(permission => hasPermission(permission));
   };
 
@@ -259,10 +315,10 @@ export function useGatekeeperPermissions() {
 /**
  * Server-side permission checking for API routes and SSR
  */
-export async function checkServerPermission(
-  rbac: RBAC,
+export async function checkServerPermission<TPermission extends string = Permission>(
+  rbac: RBAC<TPermission>,
   userId: string,
-  permission: Permission,
+  permission: TPermission | UncheckedPermission,
   context?: any
 ): Promise<boolean> {
   try {
@@ -277,8 +333,8 @@ export async function checkServerPermission(
 /**
  * Middleware helper for protecting API routes
  */
-export function createPermissionMiddleware(rbac: RBAC) {
-  return function requirePermission(permission: Permission) {
+export function createPermissionMiddleware<TPermission extends string = Permission>(rbac: RBAC<TPermission>) {
+  return function requirePermission(permission: TPermission | UncheckedPermission) {
     return async function middleware(req: any, res: any, next: any) {
       const { getServerSession } = require('next-auth/next');
       const session = await getServerSession(req, res, {} /* your auth options */);
@@ -306,9 +362,9 @@ export function createPermissionMiddleware(rbac: RBAC) {
 /**
  * Utility for creating RBAC-aware API route handlers
  */
-export function withRBAC(rbac: RBAC) {
+export function withRBAC<TPermission extends string = Permission>(rbac: RBAC<TPermission>) {
   return function createProtectedHandler(
-    permissions: Permission | Permission[],
+    permissions: TPermission | UncheckedPermission | (TPermission | UncheckedPermission)[],
     handler: (req: any, res: any, session: NextAuthSession) => Promise<any>
   ) {
     return async function protectedHandler(req: any, res: any) {
@@ -456,11 +512,12 @@ export async function getServerPermissions(rbac: RBAC, authOptions?: any) {
     return {
       isAuthenticated: true,
       userId: session.user.id,
-      hasPermission: (permission: Permission) => 
-        permissions.some(p => p.permission === permission),
+      // Evaluated like rbac.hasPermission, with deny grants and conditions
+      hasPermission: (permission: Permission, context?: Partial<PermissionContext>) =>
+        rbac.evaluatePermission(session.user.id, permission, permissions, context).allowed,
       hasRole: (roleName: string) => 
         roles.some(r => r.name === roleName || r.id === roleName),
-      permissions: permissions.map(p => p.permission),
+      permissions: permissions.filter(isAllowGrant).map(p => p.permission),
       roles: roles.map(r => r.name)
     };
   } catch (error) {
@@ -508,7 +565,7 @@ export async function getServerSidePermissions(
     return {
       isAuthenticated: true,
       userId: session.user.id,
-      permissions: permissions.map(p => p.permission),
+      permissions: permissions.filter(isAllowGrant).map(p => p.permission),
       roles: roles.map(r => ({ id: r.id, name: r.name }))
     };
   } catch (error) {
@@ -525,9 +582,9 @@ export async function getServerSidePermissions(
 /**
  * Route handler wrapper for App Router API routes
  */
-export function withPermissions(
-  rbac: RBAC, 
-  requiredPermissions: Permission | Permission[], 
+export function withPermissions<TPermission extends string = Permission>(
+  rbac: RBAC<TPermission>,
+  requiredPermissions: TPermission | UncheckedPermission | (TPermission | UncheckedPermission)[],
   authOptions?: any
 ) {
   return function routeWrapper(handler: RouteHandlerFunction) {
@@ -578,16 +635,19 @@ export function withPermissions(
 /**
  * Higher-order function for protecting page components (both App and Pages Router)
  */
-export function requireAuth<P = Record<string, unknown>>(_rbac: RBAC, options?: {
-  permissions?: Permission[];
-  roles?: string[];
-  redirectTo?: string;
-}) {
+export function requireAuth<P = Record<string, unknown>, TPermission extends string = Permission>(
+  _rbac: RBAC<TPermission>,
+  options?: {
+    permissions?: (TPermission | UncheckedPermission)[];
+    roles?: string[];
+    redirectTo?: string;
+  }
+) {
   return function pageWrapper(WrappedComponent: ComponentType<P>) {
     return function ProtectedPage(props: P) {
       const useSession = getUseSession();
       const { data: session, status } = useSession();
-      const { hasPermission, hasRole } = useGatekeeperPermissions();
+      const { hasPermission, hasRole } = useGatekeeperPermissions<TPermission>();
       const React = getReact();
 
       // Loading state
@@ -5,9 +5,12 @@ import {
   PermissionTemplateBuilder,
   TemplateManager,
   createTemplateManager,
-  createPermissionTemplate
+  createPermissionTemplate,
+  createCommonPermissions,
+  createRoleTemplates,
+  createGroupTemplates
 } from '../index';
-import { DatabaseConnector } from '../../core/types';
+import { DatabaseConnector, PermissionCondition } from '../../core/types';
 
 describe('Templates', () => {
   let mockConnector: jest.Mocked<DatabaseConnector>;
@@ -76,6 +79,36 @@ describe('Templates', () => {
     });
   });
 
+  describe('custom separator', () => {
+    it('should build common permissions with the separator', () => {
+      const permissions = createCommonPermissions(':');
+
+      expect(permissions.read('users')).toBe('users:read');
+      expect(permissions.all('users')).toBe('users:*');
+      expect(permissions.own('users', 'read')).toBe('users:read:own');
+      expect(permissions.system.admin).toBe('system:admin');
+    });
+
+    it('should build role and group templates with the separator', () => {
+      expect(createRoleTemplates(':').admin(['docs']).permissions).toEqual([{ permission: 'docs:*' }]);
+      expect(createRoleTemplates(':').viewer().permissions).toEqual([{ permission: '*:read' }]);
+      expect(createRoleTemplates({ getPermissionSeparator: () => ':' }).viewer().permissions).toEqual([{ permission: '*:read' }]);
+      expect(createGroupTemplates(':').project('Alpha').permissions).toEqual([
+        { permission: 'projects:alpha:read' },
+        { permission: 'projects:alpha:update' }
+      ]);
+    });
+
+    it('should apply templates with the template manager separator', async () => {
+      mockConnector.createRole.mockImplementation(async role => role as any);
+      const manager = createTemplateManager(mockConnector, ':');
+
+      const role = await manager.applyRoleTemplate('userManager', 'user-manager');
+
+      expect(role.permissions[0]).toEqual({ permission: 'users:create' });
+    });
+  });
+
   describe('roleTemplates', () => {
     describe('superAdmin', () => {
       it('should create super admin role with all permissions', () => {
@@ -181,10 +214,10 @@ describe('Templates', () => {
         expect(role.name).toBe('Self Manager');
         expect(role.permissions).toHaveLength(3);
         
-        // Check that all permissions have userId condition
+        // Check that all permissions require the user to own the resource
         role.permissions.forEach(permission => {
           expect(permission.conditions).toEqual([
-            { attribute: 'userId', operator: 'equals', value: '${userId}' }
+            { attribute: 'attributes.ownerId', operator: 'equals', value: '${userId}' }
           ]);
         });
       });
@@ -467,7 +500,40 @@ describe('Templates', () => {
 
         const result = templateManager.applyTemplateVariables(template, variables);
 
-        expect(result[0].conditions![0].value).toBe('user-123');
+        expect((result[0].conditions![0] as PermissionCondition).value).toBe('user-123');
+      });
+
+      it('should replace variables inside condition trees', () => {
+        const template = {
+          id: 'test-template',
+          name: 'Test Template',
+          permissions: [
+            {
+              permission: 'documents.read',
+              conditions: [
+                {
+                  anyOf: [
+                    { attribute: 'document.ownerId', operator: 'equals' as const, value: '${userId}' },
+                    { not: { attribute: 'document.team', operator: 'notEquals' as const, value: '${team}' } }
+                  ]
+                }
+              ]
+            }
+          ],
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+
+        const result = templateManager.applyTemplateVariables(template, { userId: 'user-123', team: 'core' });
+
+        expect(result[0].conditions).toEqual([
+          {
+            anyOf: [
+              { attribute: 'document.ownerId', operator: 'equals', value: 'user-123' },
+              { not: { attribute: 'document.team', operator: 'notEquals', value: 'core' } }
+            ]
+          }
+        ]);
       });
 
       it('should preserve non-string condition values', () => {
@@ -492,7 +558,7 @@ describe('Templates', () => {
 
         const result = templateManager.applyTemplateVariables(template, {});
 
-        expect(result[0].conditions![0].value).toBe(85);
+        expect((result[0].conditions![0] as PermissionCondition).value).toBe(85);
       });
 
       it('should handle missing variables gracefully', () => {
@@ -2,176 +2,212 @@ import {
   Role,
   Group,
   ConditionalPermission,
+  ConditionNode,
   PermissionTemplate,
-  DatabaseConnector
+  DatabaseConnector,
+  PermissionSeparatorSource
 } from '../core/types';
+import { resolvePermissionSeparator } from '../core/normalization';
 
 /**
  * Template system for common RBAC patterns
  * Provides pre-built roles, groups, and permission sets
  */
 
+/**
+ * Create the common permission patterns for a permission separator
+ * or an RBAC instance, whose separator is used
+ */
+export function createCommonPermissions(separatorSource: PermissionSeparatorSource = '.') {
+  const separator = resolvePermissionSeparator(separatorSource);
+  const join = (...parts: string[]) => parts.join(separator);
+
+  return {
+    // Basic CRUD operations
+    create: (resource: string) => join(resource, 'create'),
+    read: (resource: string) => join(resource, 'read'),
+    update: (resource: string) => join(resource, 'update'),
+    delete: (resource: string) => join(resource, 'delete'),
+    list: (resource: string) => join(resource, 'list'),
+
+    // Administrative operations
+    admin: (resource: string) => join(resource, 'admin'),
+    manage: (resource: string) => join(resource, 'manage'),
+
+    // Wildcard permissions
+    all: (resource: string) => join(resource, '*'),
+    everything: () => '*',
+
+    // User-specific operations
+    own: (resource: string, action: string) => join(resource, action, 'own'),
+
+    // System-level permissions
+    system: {
+      admin: join('system', 'admin'),
+      manage: join('system', 'manage'),
+      view: join('system', 'view')
+    }
+  };
+}
+
+/**
+ * Create the pre-defined role templates for a permission separator
+ * or an RBAC instance, whose separator is used
+ */
+export function createRoleTemplates(separatorSource: PermissionSeparatorSource = '.') {
+  const separator = resolvePermissionSeparator(separatorSource);
+  const join = (...parts: string[]) => parts.join(separator);
+
+  return {
+    // Administrative roles
+    superAdmin: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Super Administrator',
+      description: 'Full system access with all permissions',
+      permissions: [
+        { permission: '*' }
+      ]
+    }),
+
+    admin: (resources?: string[]): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Administrator',
+      description: 'Administrative access to specified resources',
+      permissions: resources ? resources.map(resource => ({ permission: join(resource, '*') })) : [
+        { permission: join('users', '*') },
+        { permission: join('roles', '*') },
+        { permission: join('groups', '*') }
+      ]
+    }),
+
+    // User management roles
+    userManager: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'User Manager',
+      description: 'Can manage users and their assignments',
+      permissions: [
+        { permission: join('users', 'create') },
+        { permission: join('users', 'read') },
+        { permission: join('users', 'update') },
+        { permission: join('users', 'list') },
+        { permission: join('assignments', 'create') },
+        { permission: join('assignments', 'update') },
+        { permission: join('assignments', 'read') }
+      ]
+    }),
+
+    // Content management roles
+    contentManager: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Content Manager',
+      description: 'Can manage content and media',
+      permissions: [
+        { permission: join('content', '*') },
+        { permission: join('media', '*') },
+        { permission: join('categories', 'read') },
+        { permission: join('categories', 'list') }
+      ]
+    }),
+
+    contentEditor: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Content Editor',
+      description: 'Can create and edit content',
+      permissions: [
+        { permission: join('content', 'create') },
+        { permission: join('content', 'update') },
+        { permission: join('content', 'read') },
+        { permission: join('content', 'list') },
+        { permission: join('media', 'upload') },
+        { permission: join('media', 'read') }
+      ]
+    }),
+
+    // Viewer roles
+    viewer: (resources?: string[]): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Viewer',
+      description: 'Read-only access to specified resources',
+      permissions: resources ? resources.map(resource => ({ permission: join(resource, 'read') })) : [
+        { permission: join('*', 'read') }
+      ]
+    }),
+
+    // Self-management role: checks pass the owner of the user record or profile as `attributes.ownerId`
+    selfManager: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Self Manager',
+      description: 'Can manage own profile and data',
+      permissions: [
+        {
+          permission: join('users', 'read', 'own'),
+          conditions: [
+            { attribute: 'attributes.ownerId', operator: 'equals', value: '${userId}' }
+          ]
+        },
+        {
+          permission: join('users', 'update', 'own'),
+          conditions: [
+            { attribute: 'attributes.ownerId', operator: 'equals', value: '${userId}' }
+          ]
+        },
+        {
+          permission: join('profile', 'update'),
+          conditions: [
+            { attribute: 'attributes.ownerId', operator: 'equals', value: '${userId}' }
+          ]
+        }
+      ]
+    })
+  };
+}
+
+/**
+ * Create the pre-defined group templates for a permission separator
+ * or an RBAC instance, whose separator is used
+ */
+export function createGroupTemplates(separatorSource: PermissionSeparatorSource = '.') {
+  const separator = resolvePermissionSeparator(separatorSource);
+  const join = (...parts: string[]) => parts.join(separator);
+
+  return {
+    // Department-based groups
+    department: (name: string, permissions?: ConditionalPermission[]): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: `${name} Department`,
+      description: `Members of the ${name} department`,
+      members: [],
+      permissions: permissions || []
+    }),
+
+    // Project-based groups
+    project: (name: string, permissions?: ConditionalPermission[]): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: `${name} Project Team`,
+      description: `Members working on the ${name} project`,
+      members: [],
+      permissions: permissions || [
+        { permission: join('projects', name.toLowerCase(), 'read') },
+        { permission: join('projects', name.toLowerCase(), 'update') }
+      ]
+    }),
+
+    // Access level groups
+    fullAccess: (): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Full Access',
+      description: 'Users with full system access',
+      members: [],
+      permissions: [{ permission: '*' }]
+    }),
+
+    readOnly: (): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
+      name: 'Read Only',
+      description: 'Users with read-only access',
+      members: [],
+      permissions: [{ permission: join('*', 'read') }]
+    })
+  };
+}
+
 // Common permission patterns
-export const commonPermissions = {
-  // Basic CRUD operations
-  create: (resource: string) => `${resource}.create`,
-  read: (resource: string) => `${resource}.read`,
-  update: (resource: string) => `${resource}.update`,
-  delete: (resource: string) => `${resource}.delete`,
-  list: (resource: string) => `${resource}.list`,
-
-  // Administrative operations
-  admin: (resource: string) => `${resource}.admin`,
-  manage: (resource: string) => `${resource}.manage`,
-  
-  // Wildcard permissions
-  all: (resource: string) => `${resource}.*`,
-  everything: () => '*',
-
-  // User-specific operations
-  own: (resource: string, action: string) => `${resource}.${action}.own`,
-  
-  // System-level permissions
-  system: {
-    admin: 'system.admin',
-    manage: 'system.manage',
-    view: 'system.view'
-  }
-};
+export const commonPermissions = createCommonPermissions();
 
 // Pre-defined role templates
-export const roleTemplates = {
-  // Administrative roles
-  superAdmin: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Super Administrator',
-    description: 'Full system access with all permissions',
-    permissions: [
-      { permission: '*' }
-    ]
-  }),
-
-  admin: (resources?: string[]): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Administrator',
-    description: 'Administrative access to specified resources',
-    permissions: resources ? resources.map(resource => ({ permission: `${resource}.*` })) : [
-      { permission: 'users.*' },
-      { permission: 'roles.*' },
-      { permission: 'groups.*' }
-    ]
-  }),
-
-  // User management roles
-  userManager: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'User Manager',
-    description: 'Can manage users and their assignments',
-    permissions: [
-      { permission: 'users.create' },
-      { permission: 'users.read' },
-      { permission: 'users.update' },
-      { permission: 'users.list' },
-      { permission: 'assignments.create' },
-      { permission: 'assignments.update' },
-      { permission: 'assignments.read' }
-    ]
-  }),
-
-  // Content management roles
-  contentManager: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Content Manager',
-    description: 'Can manage content and media',
-    permissions: [
-      { permission: 'content.*' },
-      { permission: 'media.*' },
-      { permission: 'categories.read' },
-      { permission: 'categories.list' }
-    ]
-  }),
-
-  contentEditor: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Content Editor',
-    description: 'Can create and edit content',
-    permissions: [
-      { permission: 'content.create' },
-      { permission: 'content.update' },
-      { permission: 'content.read' },
-      { permission: 'content.list' },
-      { permission: 'media.upload' },
-      { permission: 'media.read' }
-    ]
-  }),
-
-  // Viewer roles
-  viewer: (resources?: string[]): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Viewer',
-    description: 'Read-only access to specified resources',
-    permissions: resources ? resources.map(resource => ({ permission: `${resource}.read` })) : [
-      { permission: '*.read' }
-    ]
-  }),
-
-  // Self-management role
-  selfManager: (): Omit<Role, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Self Manager',
-    description: 'Can manage own profile and data',
-    permissions: [
-      { 
-        permission: 'users.read.own',
-        conditions: [
-          { attribute: 'userId', operator: 'equals', value: '${userId}' }
-        ]
-      },
-      { 
-        permission: 'users.update.own',
-        conditions: [
-          { attribute: 'userId', operator: 'equals', value: '${userId}' }
-        ]
-      },
-      { 
-        permission: 'profile.update',
-        conditions: [
-          { attribute: 'userId', operator: 'equals', value: '${userId}' }
-        ]
-      }
-    ]
-  })
-};
+export const roleTemplates = createRoleTemplates();
 
 // Pre-defined group templates
-export const groupTemplates = {
-  // Department-based groups
-  department: (name: string, permissions?: ConditionalPermission[]): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: `${name} Department`,
-    description: `Members of the ${name} department`,
-    members: [],
-    permissions: permissions || []
-  }),
-
-  // Project-based groups
-  project: (name: string, permissions?: ConditionalPermission[]): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: `${name} Project Team`,
-    description: `Members working on the ${name} project`,
-    members: [],
-    permissions: permissions || [
-      { permission: `projects.${name.toLowerCase()}.read` },
-      { permission: `projects.${name.toLowerCase()}.update` }
-    ]
-  }),
-
-  // Access level groups
-  fullAccess: (): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Full Access',
-    description: 'Users with full system access',
-    members: [],
-    permissions: [{ permission: '*' }]
-  }),
-
-  readOnly: (): Omit<Group, 'id' | 'createdAt' | 'updatedAt'> => ({
-    name: 'Read Only',
-    description: 'Users with read-only access',
-    members: [],
-    permissions: [{ permission: '*.read' }]
-  })
-};
+export const groupTemplates = createGroupTemplates();
 
 // Permission template builder
 export class PermissionTemplateBuilder {
@@ -219,7 +255,13 @@ export class PermissionTemplateBuilder {
 
 // Template manager for applying templates
 export class TemplateManager {
-  constructor(private connector: DatabaseConnector) {}
+  private roleTemplates: typeof roleTemplates;
+  private groupTemplates: typeof groupTemplates;
+
+  constructor(private connector: DatabaseConnector, separatorSource: PermissionSeparatorSource = '.') {
+    this.roleTemplates = createRoleTemplates(separatorSource);
+    this.groupTemplates = createGroupTemplates(separatorSource);
+  }
 
   /**
    * Apply a role template
@@ -229,7 +271,7 @@ export class TemplateManager {
     roleId: string,
     options?: any
   ): Promise<Role> {
-    const template = roleTemplates[templateName](options);
+    const template = this.roleTemplates[templateName](options);
     return this.connector.createRole({
       id: roleId,
       ...template
@@ -245,7 +287,7 @@ export class TemplateManager {
     name: string,
     permissions?: ConditionalPermission[]
   ): Promise<Group> {
-    const template = groupTemplates[templateName](name, permissions);
+    const template = this.groupTemplates[templateName](name, permissions);
     return this.connector.createGroup({
       id: groupId,
       ...template
@@ -272,15 +314,36 @@ export class TemplateManager {
     return template.permissions.map(permission => ({
       ...permission,
       permission: this.replaceVariables(permission.permission, variables),
-      conditions: permission.conditions?.map(condition => ({
-        ...condition,
-        value: typeof condition.value === 'string' 
-          ? this.replaceVariables(condition.value, variables)
-          : condition.value
-      }))
+      conditions: permission.conditions?.map(condition =>
+        this.replaceConditionVariables(condition, variables)
+      )
     }));
   }
 
+  private replaceConditionVariables(
+    condition: ConditionNode,
+    variables: Record<string, string>
+  ): ConditionNode {
+    if ('allOf' in condition) {
+      return { allOf: condition.allOf.map(child => this.replaceConditionVariables(child, variables)) };
+    }
+
+    if ('anyOf' in condition) {
+      return { anyOf: condition.anyOf.map(child => this.replaceConditionVariables(child, variables)) };
+    }
+
+    if ('not' in condition) {
+      return { not: this.replaceConditionVariables(condition.not, variables) };
+    }
+
+    return {
+      ...condition,
+      value: typeof condition.value === 'string' 
+        ? this.replaceVariables(condition.value, variables)
+        : condition.value
+    };
+  }
+
   private replaceVariables(text: string, variables: Record<string, string>): string {
     return text.replace(/\$\{([^}]+)\}/g, (match, variableName) => {
       return variables[variableName] || match;
@@ -316,8 +379,12 @@ export class TemplateManager {
 }
 
 // Export utility functions
-export function createTemplateManager(connector: DatabaseConnector): TemplateManager {
-  return new TemplateManager(connector);
+// Pass the RBAC instance as `separatorSource` to build templates with its separator
+export function createTemplateManager(
+  connector: DatabaseConnector,
+  separatorSource?: PermissionSeparatorSource
+): TemplateManager {
+  return new TemplateManager(connector, separatorSource);
 }
 
 export function createPermissionTemplate(id: string, name: string): PermissionTemplateBuilder {
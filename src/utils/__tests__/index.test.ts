@@ -6,9 +6,13 @@ import {
   cacheUtils,
   migrationUtils,
   debugUtils,
-  utils
+  utils,
+  createPermissionUtils
 } from '../index';
-import { Group, Permission } from '../../core/types';
+import { Group, GroupMember, Permission, PermissionCondition } from '../../core/types';
+import { groupMember, userMember } from '../../core/members';
+import { PermissionCatalog } from '../../core/catalog';
+import { PermissionEngine } from '../../core/permission-engine';
 
 describe('Utils', () => {
   describe('permissionUtils', () => {
@@ -81,10 +85,31 @@ describe('Utils', () => {
         expect(permissionUtils.matchesPattern('users', 'users.read')).toBe(false);
       });
 
-      it('should handle partial wildcards', () => {
-        expect(permissionUtils.matchesPattern('users.admin.read', 'users.*')).toBe(true);
+      it('should match a single segment with *', () => {
+        expect(permissionUtils.matchesPattern('users.admin.read', 'users.*')).toBe(false);
         expect(permissionUtils.matchesPattern('users.admin', 'users.*')).toBe(true);
       });
+
+      it('should match any depth with **', () => {
+        expect(permissionUtils.matchesPattern('users.admin.read', 'users.**')).toBe(true);
+        expect(permissionUtils.matchesPattern('users', 'users.**')).toBe(true);
+      });
+
+      it('should agree with PermissionEngine', () => {
+        const engine = new PermissionEngine({ connector: {} as any });
+        const cases: [Permission, Permission][] = [
+          ['users.admin.read', 'users.*'],
+          ['users.admin.read', 'users.**'],
+          ['users.admin.read', '*.*.read'],
+          ['reports.q3.read', 'reports.q*.read'],
+          ['reports.annual.read', 'reports.q*.read'],
+          ['posts.read', 'users.*']
+        ];
+
+        for (const [permission, pattern] of cases) {
+          expect(permissionUtils.matchesPattern(permission, pattern)).toBe(engine.matchesPermission(permission, pattern));
+        }
+      });
     });
 
     describe('generateCRUDPermissions', () => {
@@ -113,7 +138,7 @@ describe('Utils', () => {
         expect(permission).toEqual({
           permission: 'users.read',
           conditions: [{
-            attribute: 'userId',
+            attribute: 'attributes.ownerId',
             operator: 'equals',
             value: '${userId}'
           }]
@@ -125,7 +150,7 @@ describe('Utils', () => {
           ownerOnly: true,
           userIdAttribute: 'document.ownerId'
         });
-        expect(permission.conditions![0].attribute).toBe('document.ownerId');
+        expect((permission.conditions![0] as PermissionCondition).attribute).toBe('document.ownerId');
       });
 
       it('should add custom conditions', () => {
@@ -157,8 +182,28 @@ describe('Utils', () => {
     });
   });
 
+  describe('createPermissionUtils', () => {
+    const colonUtils = createPermissionUtils(':');
+
+    it('should create and parse permissions with the separator', () => {
+      expect(colonUtils.createPermission('users', 'read', 'own')).toBe('users:read:own');
+      expect(colonUtils.parsePermission('users:read')).toEqual({
+        resource: 'users',
+        action: 'read',
+        parts: ['users', 'read']
+      });
+      expect(colonUtils.generateCRUDPermissions('posts')).toContain('posts:delete');
+    });
+
+    it('should match patterns with the separator', () => {
+      expect(colonUtils.matchesPattern('users:read', 'users:*')).toBe(true);
+      expect(colonUtils.matchesPattern('users:admin:read', 'users:*')).toBe(false);
+      expect(colonUtils.matchesPattern('users:admin:read', 'users:**')).toBe(true);
+    });
+  });
+
   describe('groupUtils', () => {
-    const createTestGroup = (id: string, members: (string | Group)[]): Group => ({
+    const createTestGroup = (id: string, members: GroupMember[]): Group => ({
       id,
       name: `Group ${id}`,
       members,
@@ -204,6 +249,14 @@ describe('Utils', () => {
         const userIds = groupUtils.flattenGroupMembers(group);
         expect(userIds).toEqual([]);
       });
+
+      it('should follow group references through the given groups', () => {
+        const nestedGroup = createTestGroup('nested', [userMember('user2'), groupMember('parent')]);
+        const group = createTestGroup('parent', [userMember('user1'), groupMember('nested'), groupMember('missing')]);
+
+        expect(groupUtils.flattenGroupMembers(group)).toEqual(['user1']);
+        expect(groupUtils.flattenGroupMembers(group, [nestedGroup])).toEqual(['user1', 'user2']);
+      });
     });
 
     describe('containsUser', () => {
@@ -213,11 +266,27 @@ describe('Utils', () => {
         expect(groupUtils.containsUser(group, 'user3')).toBe(false);
       });
 
-      it('should find nested member', () => {
+      it('should not count members of nested groups, like the RBAC resolver', () => {
         const nestedGroup = createTestGroup('nested', ['user2']);
         const group = createTestGroup('parent', ['user1', nestedGroup]);
         
-        expect(groupUtils.containsUser(group, 'user2')).toBe(true);
+        expect(groupUtils.containsUser(group, 'user2')).toBe(false);
+        expect(groupUtils.containsUser(nestedGroup, 'user2')).toBe(true);
+      });
+
+      it('should find members stored as references', () => {
+        const group = createTestGroup('group1', [userMember('user1'), groupMember('user2')]);
+
+        expect(groupUtils.containsUser(group, 'user1')).toBe(true);
+        expect(groupUtils.containsUser(group, 'user2')).toBe(false);
+      });
+
+      it('should find members recorded on the assignment', () => {
+        const group = createTestGroup('group1', []);
+        const assignment = { userId: 'user1', roleIds: [], groupIds: ['group1'], createdAt: new Date(), updatedAt: new Date() };
+
+        expect(groupUtils.containsUser(group, 'user1', assignment)).toBe(true);
+        expect(groupUtils.containsUser(group, 'user1', null)).toBe(false);
       });
     });
 
@@ -249,6 +318,14 @@ describe('Utils', () => {
         
         expect(groupUtils.getGroupDepth(root)).toBe(2);
       });
+
+      it('should follow group references and stop at cycles', () => {
+        const level2 = createTestGroup('level2', [groupMember('level1')]);
+        const level1 = createTestGroup('level1', [groupMember('level2')]);
+        const root = createTestGroup('root', [groupMember('level1')]);
+
+        expect(groupUtils.getGroupDepth(root, [level1, level2])).toBe(2);
+      });
     });
   });
 
@@ -269,6 +346,21 @@ describe('Utils', () => {
         expect(validationUtils.isValidPermission('users/read')).toBe(false);
         expect(validationUtils.isValidPermission('users@read')).toBe(false);
       });
+
+      it('should validate against a catalog', () => {
+        const catalog = new PermissionCatalog({ users: { actions: { read: 'Read users', update: 'Update users' } } });
+
+        expect(validationUtils.isValidPermission('users.read', catalog)).toBe(true);
+        expect(validationUtils.isValidPermission('users.*', catalog)).toBe(true);
+        expect(validationUtils.isValidPermission('users.raed', catalog)).toBe(false);
+        expect(validationUtils.findUnknownPermissions(['users.read', 'users.raed', 'posts.*'], catalog))
+          .toEqual(['users.raed', 'posts.*']);
+      });
+
+      it('should accept a custom separator', () => {
+        expect(validationUtils.isValidPermission('users:read')).toBe(false);
+        expect(validationUtils.isValidPermission('users:read', undefined, ':')).toBe(true);
+      });
     });
 
     describe('isValidEmail', () => {
@@ -413,6 +505,28 @@ describe('Utils', () => {
       });
     });
 
+    describe('convertPermissionSeparator', () => {
+      it('should rewrite permissions to the new separator, keeping conditions', () => {
+        const conditions: PermissionCondition[] = [{ attribute: 'userId', operator: 'equals', value: '${userId}' }];
+        const result = migrationUtils.convertPermissionSeparator(
+          [{ permission: 'users.read', conditions }, { permission: '*' }, { permission: 'reports.**' }],
+          '.',
+          ':'
+        );
+
+        expect(result).toEqual([
+          { permission: 'users:read', conditions },
+          { permission: '*' },
+          { permission: 'reports:**' }
+        ]);
+      });
+
+      it('should reject segments that contain the new separator', () => {
+        expect(() => migrationUtils.convertPermissionSeparator([{ permission: 'urn:docs.read' }], '.', ':'))
+          .toThrow('Cannot convert permission urn:docs.read: segment "urn:docs" contains the separator ":"');
+      });
+    });
+
     describe('normalizePermissions', () => {
       it('should normalize permission strings', () => {
         const permissions = [' Users.Read ', 'POSTS.WRITE', 'users.read', 'comments.delete'];
@@ -435,6 +549,18 @@ describe('Utils', () => {
   });
 
   describe('debugUtils', () => {
+    describe('formatPermissionSource', () => {
+      it('should describe the inheritance chain', () => {
+        expect(debugUtils.formatPermissionSource({
+          type: 'group',
+          id: 'backend-team',
+          chain: ['group:backend-team', 'group:it-dept']
+        })).toBe('group:backend-team <- group:it-dept');
+        expect(debugUtils.formatPermissionSource({ type: 'role', id: 'admin', chain: ['role:admin'] })).toBe('role:admin');
+        expect(debugUtils.formatPermissionSource({ type: 'direct', chain: [] })).toBe('direct');
+      });
+    });
+
     describe('logPermissionCheck', () => {
       it('should log permission check details', () => {
         const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
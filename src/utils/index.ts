@@ -1,203 +1,240 @@
-import { Permission, ConditionalPermission, Group } from '../core/types';
+import {
+  Permission,
+  ConditionalPermission,
+  Group,
+  GroupMember,
+  PermissionSource,
+  DatabaseConnector,
+  PermissionNormalization,
+  PermissionSeparatorSource,
+  UserAssignment
+} from '../core/types';
+import type { PermissionCatalog } from '../core/catalog';
+import { matchesPermissionPattern } from '../core/matcher';
+import { normalizeConditionalPermissions, resolvePermissionSeparator } from '../core/normalization';
+import { getMemberUserIds, isNormalizedMembers, toMemberRefs } from '../core/members';
 
 /**
  * Utility functions for Gatekeeper RBAC
  */
 
 /**
- * Permission utilities
+ * Create the permission utilities for a permission separator
+ * Pass the RBAC instance (`createPermissionUtils(rbac)`) to use its separator
  */
-export const permissionUtils = {
-  /**
-   * Create a resource-based permission
-   */
-  createPermission(resource: string, action: string, scope?: string): Permission {
-    const parts = [resource, action];
-    if (scope) {
-      parts.push(scope);
-    }
-    return parts.join('.');
-  },
-
-  /**
-   * Parse a permission string into components
-   */
-  parsePermission(permission: Permission): {
-    resource?: string;
-    action?: string;
-    scope?: string;
-    parts: string[];
-  } {
-    const parts = permission.split('.');
-    
-    switch (parts.length) {
-      case 3:
-        return {
-          resource: parts[0],
-          action: parts[1],
-          scope: parts[2],
-          parts
-        };
-      case 2:
-        return {
-          resource: parts[0],
-          action: parts[1],
-          parts
-        };
-      case 1:
-        return {
-          action: parts[0],
-          parts
-        };
-      default:
-        return { parts };
-    }
-  },
-
-  /**
-   * Check if a permission matches a pattern
-   */
-  matchesPattern(permission: Permission, pattern: Permission): boolean {
-    if (pattern === '*') return true;
-    if (permission === pattern) return true;
-
-    const permParts = permission.split('.');
-    const patternParts = pattern.split('.');
-
-    if (patternParts.length > permParts.length) return false;
-
-    for (let i = 0; i < patternParts.length; i++) {
-      const patternPart = patternParts[i];
-      const permPart = permParts[i];
-
-      if (patternPart === '*') {
-        return true; // Wildcard matches everything from this point
+export function createPermissionUtils(separatorSource: PermissionSeparatorSource = '.') {
+  const separator = resolvePermissionSeparator(separatorSource);
+
+  return {
+    /**
+     * Create a resource-based permission
+     */
+    createPermission(resource: string, action: string, scope?: string): Permission {
+      const parts = [resource, action];
+      if (scope) {
+        parts.push(scope);
       }
-
-      if (patternPart !== permPart) {
-        return false;
+      return parts.join(separator);
+    },
+
+    /**
+     * Parse a permission string into components
+     */
+    parsePermission(permission: Permission): {
+      resource?: string;
+      action?: string;
+      scope?: string;
+      parts: string[];
+    } {
+      const parts = permission.split(separator);
+      
+      switch (parts.length) {
+        case 3:
+          return {
+            resource: parts[0],
+            action: parts[1],
+            scope: parts[2],
+            parts
+          };
+        case 2:
+          return {
+            resource: parts[0],
+            action: parts[1],
+            parts
+          };
+        case 1:
+          return {
+            action: parts[0],
+            parts
+          };
+        default:
+          return { parts };
       }
-    }
-
-    return patternParts.length === permParts.length;
-  },
-
-  /**
-   * Generate common CRUD permissions for a resource
-   */
-  generateCRUDPermissions(resource: string): Permission[] {
-    return [
-      `${resource}.create`,
-      `${resource}.read`,
-      `${resource}.update`,
-      `${resource}.delete`,
-      `${resource}.list`
-    ];
-  },
-
-  /**
-   * Create a conditional permission with common patterns
-   */
-  createConditionalPermission(
-    permission: Permission,
-    conditions?: {
-      ownerOnly?: boolean;
-      userIdAttribute?: string;
-      customConditions?: any[];
-    }
-  ): ConditionalPermission {
-    const result: ConditionalPermission = { permission };
-
-    if (conditions) {
-      result.conditions = [];
-
-      if (conditions.ownerOnly) {
-        result.conditions.push({
-          attribute: conditions.userIdAttribute || 'userId',
-          operator: 'equals',
-          value: '${userId}'
-        });
+    },
+
+    /**
+     * Check if a permission matches a pattern
+     * Uses the same matcher as PermissionEngine: `*` matches one segment,
+     * `**` zero or more segments, and `q*` any segment starting with `q`
+     */
+    matchesPattern(permission: Permission, pattern: Permission): boolean {
+      return matchesPermissionPattern(permission, pattern, separator);
+    },
+
+    /**
+     * Generate common CRUD permissions for a resource
+     */
+    generateCRUDPermissions(resource: string): Permission[] {
+      return [
+        `${resource}${separator}create`,
+        `${resource}${separator}read`,
+        `${resource}${separator}update`,
+        `${resource}${separator}delete`,
+        `${resource}${separator}list`
+      ];
+    },
+
+    /**
+     * Create a conditional permission with common patterns
+     * `ownerOnly` requires the checking user to own the resource: the owner's
+     * id is read from `userIdAttribute` (default `attributes.ownerId`)
+     */
+    createConditionalPermission(
+      permission: Permission,
+      conditions?: {
+        ownerOnly?: boolean;
+        userIdAttribute?: string;
+        customConditions?: any[];
       }
+    ): ConditionalPermission {
+      const result: ConditionalPermission = { permission };
+
+      if (conditions) {
+        result.conditions = [];
+
+        if (conditions.ownerOnly) {
+          result.conditions.push({
+            attribute: conditions.userIdAttribute || 'attributes.ownerId',
+            operator: 'equals',
+            value: '${userId}'
+          });
+        }
 
-      if (conditions.customConditions) {
-        result.conditions.push(...conditions.customConditions);
+        if (conditions.customConditions) {
+          result.conditions.push(...conditions.customConditions);
+        }
       }
+
+      return result;
     }
+  };
+}
 
-    return result;
-  }
-};
+/**
+ * Permission utilities for the default `.` separator
+ */
+export const permissionUtils = createPermissionUtils();
 
 /**
  * Group utilities
  */
 export const groupUtils = {
   /**
-   * Flatten nested groups to get all member user IDs
+   * Flatten nested groups to get all user IDs listed anywhere in the member tree
+   * This is not membership: members of a group inherit the permissions of the
+   * groups nested in it, not the other way round (see containsUser).
+   * Group references are followed through `groups`; embedded legacy groups directly
    */
-  flattenGroupMembers(group: Group): string[] {
+  flattenGroupMembers(group: Group, groups: Group[] = []): string[] {
     const userIds: string[] = [];
     
-    function extractUserIds(members: (string | Group)[]) {
-      for (const member of members) {
-        if (typeof member === 'string') {
-          userIds.push(member);
-        } else {
-          // It's a nested group
-          extractUserIds(member.members);
-        }
-      }
-    }
+    walkNestedGroups(group, groups, nested => {
+      userIds.push(...getMemberUserIds(nested));
+    });
 
-    extractUserIds(group.members);
     return [...new Set(userIds)]; // Remove duplicates
   },
 
   /**
-   * Check if a group contains a user (including nested groups)
+   * Check if a user is a direct member of a group: the group's `members` list
+   * the user, or the user's assignment lists the group. Users of nested groups
+   * are not members of the outer group. This is not effective membership:
+   * groups nested in the user's groups and membership rules are not resolved
+   * (see RBAC.getUserGroups)
    */
-  containsUser(group: Group, userId: string): boolean {
-    const allUserIds = this.flattenGroupMembers(group);
-    return allUserIds.includes(userId);
+  containsUser(group: Group, userId: string, assignment?: UserAssignment | null): boolean {
+    return getMemberUserIds(group).includes(userId) || (assignment?.groupIds.includes(group.id) ?? false);
   },
 
   /**
    * Get the depth of nested groups
+   * Group references are followed through `groups`; embedded legacy groups directly
    */
-  getGroupDepth(group: Group): number {
+  getGroupDepth(group: Group, groups: Group[] = []): number {
     let maxDepth = 0;
 
-    function calculateDepth(members: (string | Group)[], currentDepth: number) {
-      for (const member of members) {
-        if (typeof member === 'object') {
-          // It's a nested group
-          const depth = currentDepth + 1;
-          maxDepth = Math.max(maxDepth, depth);
-          calculateDepth(member.members, depth);
-        }
-      }
-    }
+    walkNestedGroups(group, groups, (_nested, depth) => {
+      maxDepth = Math.max(maxDepth, depth);
+    });
 
-    calculateDepth(group.members, 0);
     return maxDepth;
   }
 };
 
+/**
+ * Visit a group and the groups nested in it with their depth,
+ * stopping at groups that already appear on the current path
+ */
+function walkNestedGroups(group: Group, groups: Group[], visit: (group: Group, depth: number) => void): void {
+  const path = new Set<string>();
+
+  function walk(current: Group, depth: number) {
+    if (path.has(current.id)) {
+      return;
+    }
+    path.add(current.id);
+    visit(current, depth);
+
+    for (const member of current.members) {
+      if (typeof member === 'string' || ('type' in member && member.type === 'user')) {
+        continue;
+      }
+      // Embedded legacy groups carry their own members; references are looked up
+      const nested = 'type' in member ? groups.find(candidate => candidate.id === member.id) : member;
+      if (nested) {
+        walk(nested, depth + 1);
+      }
+    }
+    path.delete(current.id);
+  }
+
+  walk(group, 0);
+}
+
 /**
  * Validation utilities
  */
 export const validationUtils = {
   /**
-   * Validate permission format
+   * Validate permission format, and when a catalog is given, that the
+   * permission (or wildcard pattern) is registered in it
    */
-  isValidPermission(permission: Permission): boolean {
+  isValidPermission(permission: Permission, catalog?: PermissionCatalog, separator: string = '.'): boolean {
     if (!permission || typeof permission !== 'string') {
       return false;
     }
 
-    // Check for valid characters (alphanumeric, dots, underscores, hyphens, wildcards)
+    // Check for valid characters (alphanumeric, dots, underscores, hyphens, wildcards and the separator)
     const validPattern = /^[a-zA-Z0-9._\-*]+$/;
-    return validPattern.test(permission);
+    const valid = validPattern.test(permission.split(separator).join('.'));
+    return valid && (!catalog || catalog.isKnown(permission));
+  },
+
+  /**
+   * Find the permissions that are not registered in a catalog
+   */
+  findUnknownPermissions(permissions: Permission[], catalog: PermissionCatalog): Permission[] {
+    return permissions.filter(permission => !catalog.isKnown(permission));
   },
 
   /**
@@ -328,6 +365,128 @@ export const migrationUtils = {
     return permissions;
   },
 
+  /**
+   * Rewrite permissions from one separator to another, e.g. `users.read` to `users:read`
+   * Throws when a segment already contains the target separator
+   */
+  convertPermissionSeparator(
+    permissions: ConditionalPermission[],
+    from: string,
+    to: string
+  ): ConditionalPermission[] {
+    return permissions.map(conditionalPermission => {
+      const segments = conditionalPermission.permission.split(from);
+      const conflict = segments.find(segment => segment.includes(to));
+      if (conflict !== undefined) {
+        throw new Error(
+          `Cannot convert permission ${conditionalPermission.permission}: segment "${conflict}" contains the separator "${to}"`
+        );
+      }
+      return { ...conditionalPermission, permission: segments.join(to) };
+    });
+  },
+
+  /**
+   * Rewrite the stored permissions of roles, groups and users' direct grants
+   * with a normalization policy, once, when enabling normalization on an
+   * existing database. Only records whose permissions change are written;
+   * returns the ids of the updated records
+   */
+  async normalizeStoredPermissions(
+    connector: DatabaseConnector,
+    ids: { roleIds?: string[]; groupIds?: string[]; userIds?: string[] },
+    options: { normalization?: PermissionNormalization; separator?: string } = {}
+  ): Promise<{ roles: string[]; groups: string[]; users: string[] }> {
+    const normalize = (permissions: ConditionalPermission[]) =>
+      normalizeConditionalPermissions(permissions, options.normalization, options.separator);
+    const changed = (before: ConditionalPermission[], after: ConditionalPermission[]) =>
+      before.some((permission, index) => permission.permission !== after[index].permission);
+    const updated = { roles: [] as string[], groups: [] as string[], users: [] as string[] };
+
+    for (const roleId of ids.roleIds || []) {
+      const role = await connector.getRole(roleId);
+      const permissions = role ? normalize(role.permissions) : [];
+      if (role && changed(role.permissions, permissions)) {
+        await connector.updateRole(roleId, { permissions });
+        updated.roles.push(roleId);
+      }
+    }
+
+    for (const groupId of ids.groupIds || []) {
+      const group = await connector.getGroup(groupId);
+      const permissions = group ? normalize(group.permissions) : [];
+      if (group && changed(group.permissions, permissions)) {
+        await connector.updateGroup(groupId, { permissions });
+        updated.groups.push(groupId);
+      }
+    }
+
+    for (const userId of ids.userIds || []) {
+      const assignment = await connector.getUserAssignment(userId);
+      const directPermissions = assignment?.directPermissions || [];
+      const normalized = normalize(directPermissions);
+      if (changed(directPermissions, normalized)) {
+        await connector.updateUserAssignment(userId, { directPermissions: normalized });
+        updated.users.push(userId);
+      }
+    }
+
+    return updated;
+  },
+
+  /**
+   * Convert the members of stored groups to typed references, once, after
+   * upgrading from embedded `Group` objects and bare user ids. Embedded groups
+   * missing from the connector are created from their embedded copy so the
+   * new reference resolves; returns the ids of the updated and created groups
+   */
+  async migrateGroupMembers(
+    connector: DatabaseConnector,
+    groupIds: string[]
+  ): Promise<{ updated: string[]; created: string[] }> {
+    const migrated = { updated: [] as string[], created: [] as string[] };
+
+    const createMissing = async (members: GroupMember[]): Promise<void> => {
+      for (const member of members) {
+        if (typeof member !== 'object' || 'type' in member || migrated.created.includes(member.id)) {
+          continue;
+        }
+        if (!(await connector.getGroup(member.id))) {
+          const group: Omit<Group, 'createdAt' | 'updatedAt'> = {
+            id: member.id,
+            name: member.name,
+            members: toMemberRefs(member.members),
+            permissions: member.permissions
+          };
+          // Only copy optional fields that are set: Firestore rejects undefined values
+          if (member.description !== undefined) {
+            group.description = member.description;
+          }
+          if (member.membershipRule !== undefined) {
+            group.membershipRule = member.membershipRule;
+          }
+          if (member.metadata !== undefined) {
+            group.metadata = member.metadata;
+          }
+          await connector.createGroup(group);
+          migrated.created.push(member.id);
+          await createMissing(member.members);
+        }
+      }
+    };
+
+    for (const groupId of groupIds) {
+      const group = await connector.getGroup(groupId);
+      if (group && !isNormalizedMembers(group.members)) {
+        await createMissing(group.members);
+        await connector.updateGroup(groupId, { members: toMemberRefs(group.members) });
+        migrated.updated.push(groupId);
+      }
+    }
+
+    return migrated;
+  },
+
   /**
    * Normalize permission strings
    */
@@ -360,10 +519,17 @@ export const debugUtils = {
     });
   },
 
+  /**
+   * Describe where a permission comes from, e.g. 'group:backend-team <- group:it-dept'
+   */
+  formatPermissionSource(source: PermissionSource): string {
+    return source.chain.length > 0 ? source.chain.join(' <- ') : 'direct';
+  },
+
   /**
    * Analyze permission patterns for optimization
    */
-  analyzePermissionPatterns(permissions: Permission[]): {
+  analyzePermissionPatterns(permissions: Permission[], separator: string = '.'): {
     wildcards: number;
     specific: number;
     resources: Set<string>;
@@ -383,7 +549,7 @@ export const debugUtils = {
         analysis.specific++;
       }
 
-      const parsed = permissionUtils.parsePermission(permission);
+      const parsed = createPermissionUtils(separator).parsePermission(permission);
       if (parsed.resource) {
         analysis.resources.add(parsed.resource);
       }